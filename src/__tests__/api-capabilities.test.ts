@@ -0,0 +1,104 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { GitHubAPIAutomator } from '../github/api';
+import { CapabilitiesFile } from '../github/capabilities';
+import { APICapabilities } from '../types';
+
+describe('MCP API Capabilities', () => {
+  const config = { mcpServers: { github: { type: 'http' as const, url: 'https://example.com/mcp', tools: ['*'] } } };
+  const originalToken = process.env.GITHUB_TOKEN;
+  let stateDir: string;
+  let fetchMock: jest.Mock;
+  const requests = () => fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url.replace('https://api.github.com', '')}`);
+
+  const recorded: APICapabilities = {
+    version: 1,
+    probedAt: '2024-06-01T00:00:00.000Z',
+    repository: 'acme/api',
+    read: { path: '/repos/{owner}/{repo}/copilot/mcp', accept: 'application/vnd.github+json', shape: 'servers' },
+    write: { path: '/repos/{owner}/{repo}/copilot/mcp', accept: 'application/vnd.github+json', shape: 'servers', method: 'PATCH' },
+    attempts: []
+  };
+
+  beforeEach(async () => {
+    process.env.GITHUB_TOKEN = 'token';
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'capabilities-'));
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    process.env.GITHUB_TOKEN = originalToken;
+    await fs.remove(stateDir);
+  });
+
+  test('probes with GET requests until an endpoint returns an MCP configuration', async () => {
+    fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+      const accept = (init.headers as Record<string, string>).Accept;
+      if (url.endsWith('/copilot/servers') && accept === 'application/vnd.github+json') {
+        return new Response(JSON.stringify({ servers: config.mcpServers }), { status: 200 });
+      }
+      return new Response('{}', { status: 404 });
+    });
+
+    const automator = new GitHubAPIAutomator();
+    await automator.initialize({ ignoreCapabilities: true });
+    const capabilities = await automator.probe('acme/api');
+
+    expect(capabilities.read).toEqual({ path: '/repos/{owner}/{repo}/copilot/servers', accept: 'application/vnd.github+json', shape: 'servers' });
+    expect(capabilities.write).toMatchObject({ method: 'PUT', shape: 'servers' });
+    expect(capabilities.attempts).toHaveLength(8);
+    expect(fetchMock.mock.calls.every(([, init]) => init.method === 'GET')).toBe(true);
+  });
+
+  test('reads and writes only through the recorded endpoint', async () => {
+    await CapabilitiesFile.write(CapabilitiesFile.pathFor(stateDir), recorded);
+    fetchMock
+      .mockResolvedValueOnce(new Response(JSON.stringify({ servers: config.mcpServers }), { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const automator = new GitHubAPIAutomator();
+    await automator.initialize({ stateDir });
+
+    expect(await automator.readMCPConfig('acme/api')).toEqual(config);
+    await automator.updateMCPConfig('acme/api', config);
+
+    expect(requests()).toEqual(['GET /repos/acme/api/copilot/mcp', 'PATCH /repos/acme/api/copilot/mcp']);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ servers: config.mcpServers });
+  });
+
+  test('rejects a recorded response whose payload is not an object', async () => {
+    await CapabilitiesFile.write(CapabilitiesFile.pathFor(stateDir), recorded);
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ servers: null }), { status: 200 }));
+
+    const automator = new GitHubAPIAutomator();
+    await automator.initialize({ stateDir });
+
+    await expect(automator.readMCPConfig('acme/api')).rejects.toThrow('Response field "servers" is not an object');
+  });
+
+  test('refuses guessed writes unless they are allowed', async () => {
+    const automator = new GitHubAPIAutomator();
+    await automator.initialize({ stateDir });
+
+    await expect(automator.updateMCPConfig('acme/api', config)).rejects.toThrow(/probe-api/);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    await automator.initialize({ stateDir, allowGuessedWrites: true });
+    await automator.updateMCPConfig('acme/api', config);
+    expect(requests()).toEqual(['PUT /repos/acme/api/copilot/mcp']);
+  });
+
+  test('does not fall back to guessing when probing found nothing', async () => {
+    await CapabilitiesFile.write(CapabilitiesFile.pathFor(stateDir), { ...recorded, read: null, write: null });
+
+    const automator = new GitHubAPIAutomator();
+    await automator.initialize({ stateDir, allowGuessedWrites: false });
+
+    await expect(automator.readMCPConfig('acme/api')).rejects.toThrow(/found no MCP configuration API endpoint/);
+    await expect(automator.updateMCPConfig('acme/api', config)).rejects.toThrow(/found no MCP configuration API endpoint/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
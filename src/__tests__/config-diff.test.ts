@@ -0,0 +1,62 @@
+import { ConfigDiff } from '../plan/diff';
+import { MCPConfig } from '../types';
+
+describe('Config Diff', () => {
+  const server = (url: string) => ({ type: 'http' as const, url, tools: ['*'] });
+
+  const existing: MCPConfig = {
+    mcpServers: {
+      'shared': server('https://old.example.com'),
+      'local-only': server('https://local.example.com'),
+      'same': server('https://same.example.com')
+    }
+  };
+
+  const desired: MCPConfig = {
+    mcpServers: {
+      'shared': server('https://new.example.com'),
+      'same': server('https://same.example.com'),
+      'fresh': server('https://fresh.example.com')
+    }
+  };
+
+  test('classifies servers for a merge that overwrites', () => {
+    const after: MCPConfig = { mcpServers: { ...existing.mcpServers, ...desired.mcpServers } };
+    const changes = ConfigDiff.classifyServers(existing, after, desired);
+
+    expect(changes.added).toEqual(['fresh']);
+    expect(changes.replaced).toEqual(['shared']);
+    expect(changes.unchanged).toEqual(['same']);
+    expect(changes.leftAlone).toEqual(['local-only']);
+    expect(changes.skipped).toEqual([]);
+    expect(changes.removed).toEqual([]);
+  });
+
+  test('reports desired servers kept at their existing value as skipped', () => {
+    const after: MCPConfig = { mcpServers: { ...desired.mcpServers, ...existing.mcpServers } };
+    const changes = ConfigDiff.classifyServers(existing, after, desired);
+
+    expect(changes.skipped).toEqual(['shared']);
+    expect(changes.added).toEqual(['fresh']);
+  });
+
+  test('reports servers dropped by a full overwrite as removed', () => {
+    const changes = ConfigDiff.classifyServers(existing, desired, desired);
+    expect(changes.removed).toEqual(['local-only']);
+  });
+
+  test('treats configs differing only in key order as equal', () => {
+    expect(ConfigDiff.isEqual({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 })).toBe(true);
+    expect(ConfigDiff.isEqual({ a: [1, 2] }, { a: [2, 1] })).toBe(false);
+  });
+
+  test('diffLines marks added and removed lines', () => {
+    const lines = ConfigDiff.diffLines('a\nb\nc', 'a\nx\nc');
+    expect(lines).toEqual([
+      { type: 'context', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'context', text: 'c' }
+    ]);
+  });
+});
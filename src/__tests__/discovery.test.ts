@@ -0,0 +1,146 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { GitHubClient } from '../github/client';
+import { RepositoryDiscovery } from '../github/discovery';
+import { Repository } from '../types';
+import { Glob } from '../utils/glob';
+
+describe('Repository Discovery', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  const repo = (fullName: string, overrides: Partial<Repository> = {}): Repository => ({
+    name: fullName.split('/')[1],
+    owner: fullName.split('/')[0],
+    fullName,
+    hasAdminAccess: true,
+    topics: [],
+    visibility: 'private',
+    primaryLanguage: 'TypeScript',
+    isArchived: false,
+    isFork: false,
+    isTemplate: false,
+    pushedAt: '2024-05-01T00:00:00Z',
+    updatedAt: '2024-05-01T00:00:00Z',
+    ...overrides
+  });
+
+  const reasons = (repos: Repository[], filters: Parameters<typeof RepositoryDiscovery.applyFilters>[1], viewer?: string) =>
+    RepositoryDiscovery.applyFilters(repos, filters, viewer, now).excluded.map(entry => `${entry.repository}: ${entry.reason}`);
+
+  test('explains why each repository is excluded', () => {
+    const repos = [
+      repo('acme/api'),
+      repo('acme/old', { isArchived: true }),
+      repo('acme/site', { visibility: 'public', primaryLanguage: 'Go' }),
+      repo('acme/locked', { hasAdminAccess: false }),
+      repo('acme/stale', { pushedAt: '2023-01-01T00:00:00Z' })
+    ];
+
+    expect(reasons(repos, {
+      archived: false,
+      visibility: ['private'],
+      pushed_since: '2024-01-01'
+    })).toEqual([
+      'acme/old: is archived',
+      'acme/site: visibility is public (allowed: private)',
+      'acme/locked: no admin access',
+      'acme/stale: last pushed 2023-01-01, before 2024-01-01'
+    ]);
+  });
+
+  test('matches topics with any or all semantics', () => {
+    const repos = [repo('acme/a', { topics: ['api'] }), repo('acme/b', { topics: ['api', 'copilot'] })];
+
+    expect(reasons(repos, { topics: ['api', 'copilot'] })).toEqual([]);
+    expect(reasons(repos, { topics: ['api', 'copilot'], topic_match: 'all' })).toEqual(['acme/a: missing topics: copilot']);
+    expect(reasons(repos, { topics: ['web'] })).toEqual([
+      'acme/a: has none of the topics: web',
+      'acme/b: has none of the topics: web'
+    ]);
+  });
+
+  test('applies exclusions, patterns, ownership and languages', () => {
+    const repos = [
+      repo('acme/billing-service'),
+      repo('acme/billing-tool'),
+      repo('other/auth-service', { primaryLanguage: 'Python' }),
+      repo('me/docs', { primaryLanguage: null })
+    ];
+
+    expect(reasons(repos, { exclude: ['/-tool$/'] })).toEqual(['acme/billing-tool: excluded by filters.exclude ("/-tool$/")']);
+    expect(reasons(repos, { patterns: ['*/*-service'] })).toEqual([
+      'acme/billing-tool: does not match filters.patterns',
+      'me/docs: does not match filters.patterns'
+    ]);
+    expect(reasons(repos, { owner_only: true }, 'acme')).toEqual([
+      'other/auth-service: not owned by acme',
+      'me/docs: not owned by acme'
+    ]);
+    expect(reasons(repos, { languages: ['typescript'] })).toEqual([
+      'other/auth-service: primary language is Python (allowed: typescript)',
+      'me/docs: has no primary language'
+    ]);
+  });
+
+  test('lists organization repositories, narrowed to a team when given', async () => {
+    const listed = {
+      acme: [repo('acme/api'), repo('acme/site', { visibility: 'public' })],
+      'acme-labs': [repo('acme-labs/infra'), repo('acme-labs/sandbox')]
+    };
+    const client = new GitHubClient('token');
+    jest.spyOn(GitHubClient, 'create').mockResolvedValue(client);
+    const list = jest.spyOn(client, 'listRepositories').mockImplementation(async owner => listed[owner as keyof typeof listed]);
+    const team = jest.spyOn(client, 'listTeamAdminRepositories').mockResolvedValue(['acme-labs/infra']);
+    jest.spyOn(client, 'getViewerLogin').mockResolvedValue('me');
+
+    try {
+      const result = await RepositoryDiscovery.discover({
+        organizations: ['acme', { name: 'acme-labs', team: 'platform' }],
+        filters: { visibility: ['private'] }
+      }, { cacheTtl: 0 });
+
+      expect(result.repositories.map(r => r.fullName)).toEqual(['acme/api', 'acme-labs/infra']);
+      expect(result.excluded.map(entry => entry.repository)).toEqual(['acme/site']);
+      expect(team).toHaveBeenCalledWith('acme-labs', 'platform');
+      expect(list).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('applies owner_only to cached repositories discovered without it', async () => {
+    const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'discovery-'));
+    const client = new GitHubClient('token');
+    jest.spyOn(GitHubClient, 'create').mockResolvedValue(client);
+    const list = jest.spyOn(client, 'listRepositories').mockResolvedValue([repo('me/app'), repo('acme/api')]);
+    jest.spyOn(client, 'getViewerLogin').mockResolvedValue('me');
+
+    try {
+      const first = await RepositoryDiscovery.discover({ all_accessible_repos: true }, { stateDir });
+      expect(first.repositories.map(r => r.fullName)).toEqual(['me/app', 'acme/api']);
+
+      const second = await RepositoryDiscovery.discover({ all_accessible_repos: true, filters: { owner_only: true } }, { stateDir });
+      expect(second.cachedAt).toBeDefined();
+      expect(second.repositories.map(r => r.fullName)).toEqual(['me/app']);
+      expect(second.excluded.map(entry => `${entry.repository}: ${entry.reason}`)).toEqual(['acme/api: not owned by me']);
+      expect(list).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.restoreAllMocks();
+      await fs.remove(stateDir);
+    }
+  });
+
+  test('accepts relative dates in days', () => {
+    expect(RepositoryDiscovery.parseSince('30d', now).toISOString()).toBe('2024-05-02T00:00:00.000Z');
+    expect(() => RepositoryDiscovery.parseSince('last week', now)).toThrow(/Invalid date/);
+  });
+
+  test('supports regular expressions and finds the owner of a pattern', () => {
+    expect(Glob.matches('acme/api-v2', '/^acme\\/api-v\\d+$/')).toBe(true);
+    expect(Glob.isPattern('/^acme\\/.*$/')).toBe(true);
+    expect(Glob.literalOwner('acme/*-service')).toBe('acme');
+    expect(Glob.literalOwner('*/docs')).toBeUndefined();
+    expect(Glob.literalOwner('/^acme\\/.*$/')).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { DriftDetector } from '../audit/drift';
+import { BrowserAutomator } from '../browser/automator';
+import { ConfigMerger } from '../config/merge';
+import { ConfigurationEngine } from '../engine';
+import { GitHubAPIAutomator } from '../github/api';
+import { GitHubClient } from '../github/client';
+import { RepositoryDiscovery } from '../github/discovery';
+import { ConfigurationOptions, MCPConfig } from '../types';
+
+jest.mock('../github/api');
+jest.mock('../browser/automator');
+
+describe('Drift Detection', () => {
+  const expected: MCPConfig = {
+    mcpServers: {
+      'api': {
+        type: 'http',
+        url: 'https://api.example.com',
+        headers: { 'Authorization': 'Bearer $COPILOT_MCP_TOKEN' },
+        tools: ['a', 'b']
+      },
+      'files': {
+        type: 'local',
+        command: 'npx',
+        args: ['files-mcp'],
+        env: { 'ROOT': '/workspace' },
+        tools: ['*']
+      }
+    }
+  };
+
+  test('reports no findings for an identical config', () => {
+    expect(DriftDetector.compareConfigs(expected, expected)).toEqual([]);
+  });
+
+  test('reports missing and unexpected servers', () => {
+    const live: MCPConfig = {
+      mcpServers: {
+        'api': expected.mcpServers['api'],
+        'legacy': { type: 'http', url: 'https://legacy.example.com', tools: [] }
+      }
+    };
+
+    const findings = DriftDetector.compareConfigs(live, expected);
+    expect(findings.map(f => [f.kind, f.name])).toEqual([
+      ['missing-server', 'files'],
+      ['unexpected-server', 'legacy']
+    ]);
+  });
+
+  test('reports differing fields but ignores env values and tool order', () => {
+    const live: MCPConfig = {
+      mcpServers: {
+        'api': { ...expected.mcpServers['api'], url: 'https://old.example.com', tools: ['b', 'a'] },
+        'files': { ...expected.mcpServers['files'], env: { 'ROOT': '/elsewhere', 'EXTRA': '1' } }
+      }
+    };
+
+    const findings = DriftDetector.compareConfigs(live, expected);
+    expect(findings.map(f => [f.name, f.field])).toEqual([
+      ['api', 'url'],
+      ['files', 'env']
+    ]);
+  });
+
+  test('treats a missing live config as all servers missing', () => {
+    const findings = DriftDetector.compareConfigs(null, expected);
+    expect(findings.every(f => f.kind === 'missing-server')).toBe(true);
+    expect(findings).toHaveLength(2);
+  });
+
+  test('reports missing secrets and variable differences', () => {
+    const findings = DriftDetector.compareSecrets(
+      { secrets: { TOKEN: 'x', OTHER: 'y' }, variables: { LEVEL: 'info', MODE: 'prod' } },
+      ['TOKEN'],
+      { LEVEL: 'debug' }
+    );
+
+    expect(findings.map(f => [f.kind, f.name])).toEqual([
+      ['missing-secret', 'OTHER'],
+      ['variable-mismatch', 'LEVEL'],
+      ['missing-variable', 'MODE']
+    ]);
+  });
+
+  test('audits the secrets and variables of the environment', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'drift-'));
+    await fs.writeFile(path.join(dir, 'repos.yaml'), 'repositories:\n  - acme/api\n');
+    await fs.writeJson(path.join(dir, 'mcp.json'), expected);
+    await fs.writeJson(path.join(dir, 'secrets.yaml'), {
+      secrets: { TOKEN: 'x' },
+      environment: { name: 'copilot', secrets: { COPILOT_MCP_KEY: 'x', COPILOT_MCP_DB: 'y' }, variables: { COPILOT_MCP_REGION: 'eu-west-1' } }
+    });
+    const github = {
+      listRepositorySecrets: jest.fn().mockResolvedValue(['TOKEN']),
+      listRepositoryVariables: jest.fn().mockResolvedValue({}),
+      hasEnvironment: jest.fn().mockResolvedValue(true),
+      listEnvironmentSecrets: jest.fn().mockResolvedValue(['COPILOT_MCP_KEY']),
+      listEnvironmentVariables: jest.fn().mockResolvedValue({ COPILOT_MCP_REGION: 'us-east-1' })
+    };
+    const api = { initialize: jest.fn(), cleanup: jest.fn(), readMCPConfig: jest.fn().mockResolvedValue(expected), mergeMCPConfig: ConfigMerger.merge.bind(ConfigMerger) };
+    jest.mocked(GitHubAPIAutomator).mockImplementation(() => api as unknown as GitHubAPIAutomator);
+    jest.mocked(BrowserAutomator).mockImplementation(() => ({ cleanup: jest.fn() }) as unknown as BrowserAutomator);
+    jest.spyOn(GitHubClient, 'create').mockResolvedValue(github as unknown as GitHubClient);
+    jest.spyOn(RepositoryDiscovery, 'discover').mockResolvedValue({
+      repositories: [{ name: 'api', owner: 'acme', fullName: 'acme/api', hasAdminAccess: true, topics: [] }],
+      excluded: []
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const audit = async () => {
+      const report = await new ConfigurationEngine().audit({
+        repoConfig: path.join(dir, 'repos.yaml'),
+        mcpConfig: [path.join(dir, 'mcp.json')],
+        secretsConfig: path.join(dir, 'secrets.yaml'),
+        merge: true,
+        apiOnly: true,
+        stateDir: path.join(dir, 'state')
+      } as ConfigurationOptions);
+      return report.repositories[0].findings;
+    };
+
+    try {
+      expect((await audit()).map(f => [f.kind, f.name, f.environment, f.message])).toEqual([
+        ['missing-secret', 'COPILOT_MCP_DB', 'copilot', 'Secret COPILOT_MCP_DB is missing in environment copilot'],
+        ['variable-mismatch', 'COPILOT_MCP_REGION', 'copilot', 'Variable COPILOT_MCP_REGION has a different value in environment copilot']
+      ]);
+      expect(github.listEnvironmentSecrets).toHaveBeenCalledWith('acme/api', 'copilot');
+
+      github.hasEnvironment.mockResolvedValue(false);
+      expect((await audit()).map(f => f.message)).toEqual(['Environment copilot is missing']);
+    } finally {
+      jest.restoreAllMocks();
+      await fs.remove(dir);
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BrowserAutomator } from '../browser/automator';
+import { ConfigMerger } from '../config/merge';
+import { ConfigurationEngine } from '../engine';
+import { GitHubAPIAutomator } from '../github/api';
+import { RepositoryDiscovery } from '../github/discovery';
+import { ConfigurationOptions, ExportOptions, MCPConfig } from '../types';
+
+jest.mock('../github/api');
+jest.mock('../browser/automator');
+
+describe('Export', () => {
+  const apiConfig: MCPConfig = { mcpServers: { sentry: { type: 'http', url: 'https://mcp.sentry.dev', tools: ['*'] } } };
+  const browserConfig: MCPConfig = { mcpServers: { existing: { type: 'local', command: 'npx', tools: ['*'] } } };
+  let dir: string;
+  let api: { hasRecordedRead: boolean; readMCPConfig: jest.Mock; updateMCPConfig: jest.Mock; [member: string]: unknown };
+  let browser: { readMCPConfig: jest.Mock; [member: string]: unknown };
+
+  // Live configurations by repository, or the error reading one fails with
+  const withLive = (live: Record<string, MCPConfig | null | Error>) => {
+    api.readMCPConfig.mockImplementation(async (name: string) => {
+      const config = live[name];
+      if (config instanceof Error) {
+        throw config;
+      }
+      return config;
+    });
+    jest.spyOn(RepositoryDiscovery, 'discover').mockResolvedValue({
+      repositories: Object.keys(live).map(fullName => {
+        const [owner, name] = fullName.split('/');
+        return { name, owner, fullName, hasAdminAccess: true, topics: [] };
+      }),
+      excluded: []
+    });
+  };
+
+  const exportAll = (apiOnly = false) => new ConfigurationEngine().export({
+    repoConfig: path.join(dir, 'repos.yaml'),
+    outDir: path.join(dir, 'export'),
+    verbose: false,
+    debug: false,
+    apiOnly,
+    interactiveAuth: false,
+    stateDir: path.join(dir, 'state')
+  } as ExportOptions);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-'));
+    await fs.writeFile(path.join(dir, 'repos.yaml'), 'repositories:\n  - acme/api\n');
+
+    api = {
+      hasRecordedRead: false,
+      readMCPConfig: jest.fn(),
+      updateMCPConfig: jest.fn(),
+      initialize: jest.fn(),
+      cleanup: jest.fn(),
+      mergeMCPConfig: ConfigMerger.merge.bind(ConfigMerger)
+    };
+    browser = {
+      authenticationStatus: true,
+      readMCPConfig: jest.fn().mockResolvedValue(browserConfig),
+      initialize: jest.fn(),
+      authenticateWithGitHub: jest.fn(),
+      cleanup: jest.fn()
+    };
+    jest.mocked(GitHubAPIAutomator).mockImplementation(() => api as unknown as GitHubAPIAutomator);
+    jest.mocked(BrowserAutomator).mockImplementation(() => browser as unknown as BrowserAutomator);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  test('writes one file per repository and an index describing the export', async () => {
+    withLive({ 'acme/api': apiConfig, 'acme/web': new Error('rate limited') });
+
+    const index = await exportAll(true);
+
+    expect(index.repositories).toEqual([
+      { repository: 'acme/api', source: 'api', hasConfig: true, file: 'acme__api.json' },
+      { repository: 'acme/web', hasConfig: false, error: 'API-only mode enabled but API read failed: Error: rate limited' }
+    ]);
+    expect(await fs.readJson(path.join(dir, 'export', 'index.json'))).toEqual(index);
+    expect(await fs.readJson(path.join(dir, 'export', 'acme__api.json'))).toEqual(apiConfig);
+    expect((await fs.stat(path.join(dir, 'export', 'acme__api.json'))).mode & 0o777).toBe(0o600);
+    expect(browser.readMCPConfig).not.toHaveBeenCalled();
+  });
+
+  test('asks the browser when the guessed API endpoints find no configuration', async () => {
+    withLive({ 'acme/api': null });
+
+    const index = await exportAll();
+
+    expect(browser.readMCPConfig).toHaveBeenCalledWith('acme/api');
+    expect(index.repositories).toEqual([{ repository: 'acme/api', source: 'browser', hasConfig: true, file: 'acme__api.json' }]);
+    expect(await fs.readJson(path.join(dir, 'export', 'acme__api.json'))).toEqual(browserConfig);
+  });
+
+  test('exports a repository without configuration as an empty server set', async () => {
+    withLive({ 'acme/api': null });
+    browser.readMCPConfig.mockResolvedValue(null);
+
+    const index = await exportAll();
+
+    expect(index.repositories).toEqual([{ repository: 'acme/api', source: 'browser', hasConfig: false, file: 'acme__api.json' }]);
+    expect(await fs.readJson(path.join(dir, 'export', 'acme__api.json'))).toEqual({ mcpServers: {} });
+  });
+
+  test('reports an error when the browser fails after the guessed API endpoints find nothing', async () => {
+    withLive({ 'acme/api': null });
+    browser.readMCPConfig.mockRejectedValue(new Error('page not found'));
+
+    const [entry] = (await exportAll()).repositories;
+
+    expect(entry).toEqual({ repository: 'acme/api', hasConfig: false, error: expect.stringMatching(/^API: .*probe-api.*; Browser: Error: page not found$/) });
+    expect(await fs.pathExists(path.join(dir, 'export', 'acme__api.json'))).toBe(false);
+  });
+
+  test('does not export an empty result in API-only mode unless probe-api recorded the endpoint', async () => {
+    withLive({ 'acme/api': null });
+
+    const [entry] = (await exportAll(true)).repositories;
+    expect(entry).toEqual({ repository: 'acme/api', hasConfig: false, error: expect.stringMatching(/^API-only mode enabled but API read failed: .*probe-api/) });
+    expect(await fs.pathExists(path.join(dir, 'export', 'acme__api.json'))).toBe(false);
+
+    api.hasRecordedRead = true;
+    expect((await exportAll(true)).repositories).toEqual([{ repository: 'acme/api', source: 'api', hasConfig: false, file: 'acme__api.json' }]);
+    expect(browser.readMCPConfig).not.toHaveBeenCalled();
+  });
+
+  test('restores an exported file with configure --force-overwrite', async () => {
+    withLive({ 'acme/api': apiConfig });
+    await exportAll(true);
+
+    // The configuration has since been changed by hand
+    api.readMCPConfig.mockResolvedValue(browserConfig);
+    await new ConfigurationEngine().configure({
+      repoConfig: path.join(dir, 'repos.yaml'),
+      mcpConfig: [path.join(dir, 'export', 'acme__api.json')],
+      forceOverwrite: true,
+      concurrency: 1,
+      apiOnly: true,
+      stateDir: path.join(dir, 'state')
+    } as ConfigurationOptions);
+
+    expect(api.updateMCPConfig).toHaveBeenCalledWith('acme/api', apiConfig);
+  });
+});
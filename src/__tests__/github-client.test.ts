@@ -0,0 +1,196 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import sodium from 'libsodium-wrappers';
+import { GitHubClient } from '../github/client';
+import { DiscoveryCache } from '../state/discovery-cache';
+
+describe('GitHub Client', () => {
+  const node = (fullName: string) => ({
+    name: fullName.split('/')[1],
+    owner: { login: fullName.split('/')[0] },
+    visibility: 'PRIVATE',
+    primaryLanguage: { name: 'TypeScript' },
+    isArchived: false,
+    isFork: false,
+    isTemplate: false,
+    pushedAt: '2024-05-01T00:00:00Z',
+    updatedAt: '2024-05-01T00:00:00Z',
+    repositoryTopics: { nodes: [{ topic: { name: 'mcp' } }] },
+    viewerCanAdminister: true
+  });
+
+  let fetchMock: jest.Mock;
+  const requests = () => fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+  const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers });
+  const respond = (...bodies: unknown[]) => {
+    for (const body of bodies) {
+      fetchMock.mockResolvedValueOnce(json(body));
+    }
+  };
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  test('follows cursors until every repository is listed', async () => {
+    respond(
+      { data: { repositoryOwner: { repositories: { nodes: [node('acme/a')], pageInfo: { hasNextPage: true, endCursor: 'c1' } } } } },
+      { data: { repositoryOwner: { repositories: { nodes: [node('acme/b')], pageInfo: { hasNextPage: false, endCursor: null } } } } }
+    );
+
+    const repositories = await new GitHubClient('token').listRepositories('acme');
+
+    expect(repositories.map(repo => repo.fullName)).toEqual(['acme/a', 'acme/b']);
+    expect(repositories[0]).toMatchObject({ visibility: 'private', primaryLanguage: 'TypeScript', topics: ['mcp'], hasAdminAccess: true });
+    expect(requests().map(request => request.variables)).toEqual([
+      { login: 'acme', cursor: null },
+      { login: 'acme', cursor: 'c1' }
+    ]);
+  });
+
+  test('looks up listed repositories in batches and reports the ones that cannot be read', async () => {
+    const names = Array.from({ length: 60 }, (_, i) => `acme/repo-${i}`);
+    const batch = (from: number, to: number) => Object.fromEntries(
+      names.slice(from, to).map((name, i) => [`r${i}`, name === 'acme/repo-55' ? null : node(name)])
+    );
+    respond(
+      { data: batch(0, 50) },
+      { data: batch(50, 60), errors: [{ type: 'NOT_FOUND', path: ['r5'], message: "Could not resolve to a Repository with the name 'acme/repo-55'." }] }
+    );
+
+    const result = await new GitHubClient('token').getRepositories([...names, 'not-a-repository']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.repositories).toHaveLength(59);
+    expect(result.excluded).toEqual([
+      { repository: 'not-a-repository', reason: 'is not an owner/name repository' },
+      { repository: 'acme/repo-55', reason: "could not be read (Could not resolve to a Repository with the name 'acme/repo-55'.)" }
+    ]);
+    expect(requests()[1].variables).toMatchObject({ owner0: 'acme', name0: 'repo-50' });
+  });
+
+  test('encrypts secrets so only the repository key can open them', async () => {
+    await sodium.ready;
+    const keyPair = sodium.crypto_box_keypair();
+    const value = 'p@ss "word" $(rm -rf /) `id`';
+
+    const encrypted = await GitHubClient.encryptSecret(value, sodium.to_base64(keyPair.publicKey, sodium.base64_variants.ORIGINAL));
+    const opened = sodium.crypto_box_seal_open(
+      sodium.from_base64(encrypted, sodium.base64_variants.ORIGINAL),
+      keyPair.publicKey,
+      keyPair.privateKey
+    );
+
+    expect(sodium.to_string(opened)).toBe(value);
+  });
+
+  test('sets secrets with the repository public key, fetched once', async () => {
+    await sodium.ready;
+    const publicKey = sodium.to_base64(sodium.crypto_box_keypair().publicKey, sodium.base64_variants.ORIGINAL);
+    fetchMock
+      .mockResolvedValueOnce(json({ key_id: 'key-1', key: publicKey }))
+      .mockResolvedValueOnce(json({}, 201))
+      .mockResolvedValueOnce(json({}, 201));
+
+    const client = new GitHubClient('token');
+    await client.setRepositorySecret('acme/api', 'API_KEY', 'one');
+    await client.setRepositorySecret('acme/api', 'OTHER_KEY', 'two');
+
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      'GET https://api.github.com/repos/acme/api/actions/secrets/public-key',
+      'PUT https://api.github.com/repos/acme/api/actions/secrets/API_KEY',
+      'PUT https://api.github.com/repos/acme/api/actions/secrets/OTHER_KEY'
+    ]);
+    const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(body.key_id).toBe('key-1');
+    expect(body.encrypted_value).not.toContain('one');
+  });
+
+  test('updates variables that already exist', async () => {
+    fetchMock
+      .mockResolvedValueOnce(json({ message: 'Already exists' }, 409))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    await new GitHubClient('token').setRepositoryVariable('acme/api', 'REGION', 'eu-west-1');
+
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url} ${init.body}`)).toEqual([
+      'POST https://api.github.com/repos/acme/api/actions/variables {"name":"REGION","value":"eu-west-1"}',
+      'PATCH https://api.github.com/repos/acme/api/actions/variables/REGION {"name":"REGION","value":"eu-west-1"}'
+    ]);
+  });
+
+  test('creates a missing environment before setting its secrets with the environment key', async () => {
+    await sodium.ready;
+    const publicKey = sodium.to_base64(sodium.crypto_box_keypair().publicKey, sodium.base64_variants.ORIGINAL);
+    fetchMock
+      .mockResolvedValueOnce(json({ message: 'Not Found' }, 404))
+      .mockResolvedValueOnce(json({ name: 'copilot' }))
+      .mockResolvedValueOnce(json({ key_id: 'env-key', key: publicKey }))
+      .mockResolvedValueOnce(json({}, 201))
+      .mockResolvedValueOnce(json({ name: 'copilot' }));
+
+    const client = new GitHubClient('token');
+    expect(await client.ensureEnvironment('acme/api', 'copilot')).toBe(true);
+    await client.setEnvironmentSecret('acme/api', 'copilot', 'API_KEY', 'one');
+    expect(await client.ensureEnvironment('acme/api', 'copilot')).toBe(false);
+
+    expect(fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+      'GET https://api.github.com/repos/acme/api/environments/copilot',
+      'PUT https://api.github.com/repos/acme/api/environments/copilot',
+      'GET https://api.github.com/repos/acme/api/environments/copilot/secrets/public-key',
+      'PUT https://api.github.com/repos/acme/api/environments/copilot/secrets/API_KEY',
+      'GET https://api.github.com/repos/acme/api/environments/copilot'
+    ]);
+    expect(JSON.parse(fetchMock.mock.calls[3][1].body).key_id).toBe('env-key');
+  });
+
+  test('follows Link headers when listing variables', async () => {
+    const page = (variables: object[], link?: string) => json({ variables }, 200, link ? { link } : {});
+    fetchMock
+      .mockResolvedValueOnce(page([{ name: 'A', value: '1' }], '<https://api.github.com/repos/acme/api/actions/variables?page=2>; rel="next"'))
+      .mockResolvedValueOnce(page([{ name: 'B', value: '2' }]));
+
+    expect(await new GitHubClient('token').listRepositoryVariables('acme/api')).toEqual({ A: '1', B: '2' });
+    expect(fetchMock.mock.calls[1][0]).toBe('https://api.github.com/repos/acme/api/actions/variables?page=2');
+  });
+
+  test('fails when the request is rejected', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('Bad credentials', { status: 401 }));
+
+    await expect(new GitHubClient('token').getViewerLogin()).rejects.toThrow(/401: Bad credentials/);
+  });
+});
+
+describe('Discovery Cache', () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'discovery-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(stateDir);
+  });
+
+  test('reuses results until the ttl expires', async () => {
+    const cache = new DiscoveryCache(stateDir, 15);
+    const cachedAt = new Date('2024-06-01T12:00:00Z');
+    await cache.set({ organizations: ['acme'] }, ['acme/api'], cachedAt);
+
+    expect(await cache.get({ organizations: ['acme'] }, new Date('2024-06-01T12:10:00Z')))
+      .toEqual({ value: ['acme/api'], cachedAt: cachedAt.toISOString() });
+    expect(await cache.get({ organizations: ['acme'] }, new Date('2024-06-01T12:16:00Z'))).toBeUndefined();
+    expect(await cache.get({ organizations: ['other'] }, new Date('2024-06-01T12:10:00Z'))).toBeUndefined();
+  });
+
+  test('is disabled by a ttl of 0', async () => {
+    const cache = new DiscoveryCache(stateDir, 0);
+    await cache.set('key', 'value');
+
+    expect(await cache.get('key')).toBeUndefined();
+    expect(await fs.pathExists(path.join(stateDir, 'cache'))).toBe(false);
+  });
+});
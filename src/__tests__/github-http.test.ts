@@ -0,0 +1,91 @@
+import { GitHubHttp, RateLimitError } from '../github/http';
+
+describe('GitHub Rate Limits', () => {
+  let clock: number;
+  let sleeps: number[];
+  let fetchMock: jest.Mock;
+  let http: GitHubHttp;
+
+  const response = (status: number, headers: Record<string, string> = {}, body = '{}') => new Response(body, { status, headers });
+  const budget = (remaining: number, resetInSeconds = 600) => ({
+    'x-ratelimit-limit': '5000',
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-reset': String(Math.floor((clock + resetInSeconds * 1000) / 1000))
+  });
+
+  beforeEach(() => {
+    clock = Date.UTC(2024, 5, 1);
+    sleeps = [];
+    fetchMock = jest.fn();
+    http = new GitHubHttp({
+      fetch: fetchMock,
+      now: () => clock,
+      sleep: async ms => {
+        sleeps.push(ms);
+        clock += ms;
+      }
+    });
+  });
+
+  test('retries after the time a secondary rate limit asks for', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(403, { 'retry-after': '30' }, '{"message":"You have exceeded a secondary rate limit"}'))
+      .mockResolvedValueOnce(response(200));
+
+    const result = await http.fetch('https://api.github.com/repos/acme/api');
+
+    expect(result.status).toBe(200);
+    expect(sleeps).toEqual([30000]);
+    expect(http.stats).toEqual({ waitedMs: 30000, pauses: 1 });
+  });
+
+  test('backs off on abuse detection without a retry-after header', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(403, {}, '{"message":"You have triggered an abuse detection mechanism"}'))
+      .mockResolvedValueOnce(response(403, {}, '{"message":"You have triggered an abuse detection mechanism"}'))
+      .mockResolvedValueOnce(response(200));
+
+    await http.fetch('https://api.github.com/repos/acme/api');
+
+    expect(sleeps).toEqual([60000, 120000]);
+  });
+
+  test('returns other 403s to the caller', async () => {
+    fetchMock.mockResolvedValueOnce(response(403, {}, '{"message":"Resource not accessible by integration"}'));
+
+    expect((await http.fetch('https://api.github.com/repos/acme/api')).status).toBe(403);
+    expect(sleeps).toEqual([]);
+  });
+
+  test('pauses until the budget resets when it is nearly used up', async () => {
+    fetchMock.mockResolvedValueOnce(response(200, budget(10, 120))).mockResolvedValueOnce(response(200, budget(4999, 3600)));
+
+    await http.fetch('https://api.github.com/repos/acme/api');
+    await http.fetch('https://api.github.com/repos/acme/other');
+
+    expect(sleeps).toEqual([121000]);
+  });
+
+  test('reduces concurrency under pressure and restores it once calm', async () => {
+    expect(http.effectiveConcurrency(8)).toBe(8);
+
+    fetchMock
+      .mockResolvedValueOnce(response(429, { 'retry-after': '1' }))
+      .mockResolvedValueOnce(response(429, { 'retry-after': '1' }))
+      .mockResolvedValue(response(200));
+    await http.fetch('https://api.github.com/graphql');
+    expect(http.effectiveConcurrency(8)).toBe(2);
+
+    for (let i = 0; i < 200; i++) {
+      await http.fetch('https://api.github.com/graphql');
+    }
+    expect(http.effectiveConcurrency(8)).toBe(8);
+  });
+
+  test('gives up after repeated rate limits', async () => {
+    fetchMock.mockResolvedValue(response(429, { 'retry-after': '1' }));
+
+    await expect(http.fetch('https://api.github.com/graphql', { method: 'POST' })).rejects.toThrow(RateLimitError);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+});
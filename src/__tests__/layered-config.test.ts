@@ -0,0 +1,87 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigParser } from '../config/parser';
+
+describe('Layered MCP Configs', () => {
+  let tempDir: string;
+
+  const write = async (name: string, content: object) => {
+    const filePath = path.join(tempDir, name);
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJson(filePath, content);
+    return filePath;
+  };
+
+  const platform = {
+    mcpServers: {
+      github: { type: 'http', url: 'https://github.example.com', headers: { 'X-Team': 'platform' }, tools: ['*'] },
+      search: { type: 'http', url: 'https://search.example.com', tools: ['search'] },
+      legacy: { type: 'local', command: 'legacy-mcp', tools: ['*'] }
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layered-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('inherits, overrides field by field and drops servers from a base config', async () => {
+    await write('base/platform.json', platform);
+    const team = await write('team.json', {
+      extends: './base/platform.json',
+      mcpServers: {
+        github: { tools: ['get_issue'] },
+        legacy: null,
+        docs: { type: 'local', command: 'docs-mcp', tools: ['*'] }
+      }
+    });
+
+    const config = await ConfigParser.parseMCPConfig(team);
+    expect(config.mcpServers.github).toEqual({
+      type: 'http',
+      url: 'https://github.example.com',
+      headers: { 'X-Team': 'platform' },
+      tools: ['get_issue']
+    });
+    expect(config.mcpServers.search).toEqual(platform.mcpServers.search);
+    expect(config.mcpServers.legacy).toBeUndefined();
+    expect(config.mcpServers.docs.command).toBe('docs-mcp');
+  });
+
+  test('combines remove lists and drops removed servers', async () => {
+    await write('platform.json', { ...platform, remove: ['old-server'] });
+    const team = await write('team.json', { extends: ['platform.json'], mcpServers: {}, remove: ['search'] });
+
+    const config = await ConfigParser.parseMCPConfig(team);
+    expect(config.mcpServers.search).toBeUndefined();
+    expect(config.remove).toEqual(['old-server', 'search']);
+  });
+
+  test('overlays several files left to right', async () => {
+    const base = await write('platform.json', platform);
+    const overlay = await write('overlay.json', {
+      mcpServers: { search: { type: 'local', command: 'local-search', tools: ['*'] } }
+    });
+
+    const config = await ConfigParser.parseMCPConfigs([base, overlay]);
+    expect(config.mcpServers.search).toEqual({ type: 'local', command: 'local-search', tools: ['*'] });
+    expect(Object.keys(config.mcpServers)).toEqual(['github', 'search', 'legacy']);
+  });
+
+  test('rejects circular extends chains', async () => {
+    await write('a.json', { extends: 'b.json', mcpServers: {} });
+    const b = await write('b.json', { extends: 'a.json', mcpServers: {} });
+
+    await expect(ConfigParser.parseMCPConfig(b)).rejects.toThrow(/circular/);
+  });
+
+  test('validates the resolved config', async () => {
+    const partial = await write('partial.json', { mcpServers: { github: { tools: ['*'] } } });
+
+    await expect(ConfigParser.parseMCPConfig(partial)).rejects.toThrow(/"type" property/);
+  });
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BrowserAutomator } from '../browser/automator';
+import { ConfigMerger } from '../config/merge';
+import { ConfigurationEngine } from '../engine';
+import { GitHubAPIAutomator } from '../github/api';
+import { RepositoryDiscovery } from '../github/discovery';
+import { ConfigurationOptions, MCPConfig } from '../types';
+
+jest.mock('../github/api');
+jest.mock('../browser/automator');
+
+describe('Live Configuration Reads', () => {
+  const desiredConfig: MCPConfig = { mcpServers: { sentry: { type: 'http', url: 'https://mcp.sentry.dev', tools: ['*'] } } };
+  const browserConfig: MCPConfig = { mcpServers: { existing: { type: 'local', command: 'npx', tools: ['*'] } } };
+  let dir: string;
+  let api: { hasRecordedRead: boolean; readMCPConfig: jest.Mock; [member: string]: unknown };
+  let browser: { readMCPConfig: jest.Mock; [member: string]: unknown };
+
+  const plan = async (apiOnly = false) => {
+    const options = {
+      repoConfig: path.join(dir, 'repos.yaml'),
+      mcpConfig: [path.join(dir, 'mcp.json')],
+      merge: true,
+      concurrency: 1,
+      apiOnly,
+      interactiveAuth: false,
+      debug: false,
+      stateDir: path.join(dir, 'state')
+    } as ConfigurationOptions;
+    const [repoPlan] = (await new ConfigurationEngine().plan(options, path.join(dir, 'plan.json'))).repositories;
+    return repoPlan;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'live-config-'));
+    await fs.writeFile(path.join(dir, 'repos.yaml'), 'repositories:\n  - acme/api\n');
+    await fs.writeJson(path.join(dir, 'mcp.json'), desiredConfig);
+
+    api = {
+      hasRecordedRead: false,
+      readMCPConfig: jest.fn().mockResolvedValue(null),
+      initialize: jest.fn(),
+      cleanup: jest.fn(),
+      mergeMCPConfig: ConfigMerger.merge.bind(ConfigMerger)
+    };
+    browser = {
+      authenticationStatus: true,
+      readMCPConfig: jest.fn().mockResolvedValue(browserConfig),
+      initialize: jest.fn(),
+      authenticateWithGitHub: jest.fn(),
+      cleanup: jest.fn()
+    };
+    jest.mocked(GitHubAPIAutomator).mockImplementation(() => api as unknown as GitHubAPIAutomator);
+    jest.mocked(BrowserAutomator).mockImplementation(() => browser as unknown as BrowserAutomator);
+    jest.spyOn(RepositoryDiscovery, 'discover').mockResolvedValue({
+      repositories: [{ name: 'api', owner: 'acme', fullName: 'acme/api', hasAdminAccess: true, topics: [] }],
+      excluded: []
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  test('checks through the browser when guessed API endpoints find nothing', async () => {
+    expect((await plan()).mcpConfig?.before).toEqual(browserConfig);
+    expect(browser.readMCPConfig).toHaveBeenCalledWith('acme/api');
+  });
+
+  test('fails in API-only mode rather than assuming there is no configuration', async () => {
+    expect((await plan(true)).readError).toMatch(/API-only mode enabled but API read failed: .*probe-api/);
+    expect(browser.readMCPConfig).not.toHaveBeenCalled();
+  });
+
+  test('trusts an empty read from the endpoint probe-api recorded', async () => {
+    api.hasRecordedRead = true;
+
+    expect((await plan()).mcpConfig?.before).toBeNull();
+    expect(browser.readMCPConfig).not.toHaveBeenCalled();
+  });
+});
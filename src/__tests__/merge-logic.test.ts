@@ -76,4 +76,132 @@ describe('MCP Config Merge Logic', () => {
     const result = automator.mergeMCPConfig(null, newConfig, MergeStrategy.MERGE);
     expect(result).toEqual(newConfig);
   });
-});
\ No newline at end of file
+});
+
+describe('Deep Merge Strategy', () => {
+  let automator: BrowserAutomator;
+
+  beforeEach(() => {
+    automator = new BrowserAutomator();
+  });
+
+  const existingConfig: MCPConfig = {
+    mcpServers: {
+      'shared': {
+        type: 'local',
+        command: 'npx',
+        args: ['shared-server', '--root', '/repo'],
+        env: { 'LOG_LEVEL': 'debug', 'REPO_ONLY': 'keep' },
+        tools: ['read', 'write']
+      },
+      'repo-only': {
+        type: 'http',
+        url: 'https://repo.example.com',
+        tools: ['*']
+      }
+    }
+  };
+
+  const newConfig: MCPConfig = {
+    mcpServers: {
+      'shared': {
+        type: 'local',
+        command: 'node',
+        env: { 'LOG_LEVEL': 'info', 'NEW_KEY': 'added' },
+        tools: ['write', 'search']
+      },
+      'added': {
+        type: 'http',
+        url: 'https://added.example.com',
+        tools: ['*']
+      }
+    }
+  };
+
+  test('unions tools, merges env and keeps repo-local args', () => {
+    const result = automator.mergeMCPConfig(existingConfig, newConfig, MergeStrategy.DEEP_MERGE);
+    const shared = result.mcpServers['shared'];
+
+    expect(shared.tools).toEqual(['read', 'write', 'search']);
+    expect(shared.env).toEqual({ 'LOG_LEVEL': 'info', 'REPO_ONLY': 'keep', 'NEW_KEY': 'added' });
+    expect(shared.args).toEqual(['shared-server', '--root', '/repo']);
+    expect(shared.command).toBe('node');
+  });
+
+  test('keeps existing scalar values when existing takes precedence', () => {
+    const result = automator.mergeMCPConfig(existingConfig, newConfig, MergeStrategy.DEEP_MERGE, { precedence: 'existing' });
+    const shared = result.mcpServers['shared'];
+
+    expect(shared.command).toBe('npx');
+    expect(shared.env!['LOG_LEVEL']).toBe('debug');
+    expect(shared.env!['NEW_KEY']).toBe('added');
+  });
+
+  test('uses new args when the new config sets them', () => {
+    const withArgs: MCPConfig = {
+      mcpServers: { 'shared': { ...newConfig.mcpServers['shared'], args: ['--new'] } }
+    };
+    const result = automator.mergeMCPConfig(existingConfig, withArgs, MergeStrategy.DEEP_MERGE, { precedence: 'existing' });
+    expect(result.mcpServers['shared'].args).toEqual(['--new']);
+  });
+
+  test('adds new servers and keeps servers only in the repository', () => {
+    const result = automator.mergeMCPConfig(existingConfig, newConfig, MergeStrategy.DEEP_MERGE);
+    expect(result.mcpServers['added']).toEqual(newConfig.mcpServers['added']);
+    expect(result.mcpServers['repo-only']).toEqual(existingConfig.mcpServers['repo-only']);
+  });
+
+  test('takes the preferred server whole when types differ', () => {
+    const retyped: MCPConfig = {
+      mcpServers: { 'repo-only': { type: 'local', command: 'npx', tools: ['x'] } }
+    };
+    const result = automator.mergeMCPConfig(existingConfig, retyped, MergeStrategy.DEEP_MERGE);
+    expect(result.mcpServers['repo-only']).toEqual(retyped.mcpServers['repo-only']);
+  });
+});
+
+describe('Server Removal', () => {
+  let automator: BrowserAutomator;
+
+  beforeEach(() => {
+    automator = new BrowserAutomator();
+  });
+
+  const server = (url: string) => ({ type: 'http' as const, url, tools: ['*'] });
+
+  const existingConfig: MCPConfig = {
+    mcpServers: {
+      'keep': server('https://keep.example.com'),
+      'retired': server('https://retired.example.com'),
+      'unmanaged': server('https://unmanaged.example.com')
+    }
+  };
+
+  const newConfig: MCPConfig = {
+    mcpServers: {
+      'keep': server('https://keep.example.com'),
+      'fresh': server('https://fresh.example.com')
+    },
+    remove: ['retired']
+  };
+
+  test('removes listed servers when merging', () => {
+    const result = automator.mergeMCPConfig(existingConfig, newConfig, MergeStrategy.MERGE);
+    expect(Object.keys(result.mcpServers).sort()).toEqual(['fresh', 'keep', 'unmanaged']);
+  });
+
+  test('never writes the remove section', () => {
+    const result = automator.mergeMCPConfig(null, newConfig, MergeStrategy.FORCE_OVERWRITE);
+    expect(result).toEqual({ mcpServers: newConfig.mcpServers });
+  });
+
+  test('prune removes every undeclared server', () => {
+    const result = automator.mergeMCPConfig(existingConfig, newConfig, MergeStrategy.MERGE_OVERWRITE, { prune: true });
+    expect(Object.keys(result.mcpServers).sort()).toEqual(['fresh', 'keep']);
+  });
+
+  test('SKIP leaves an existing configuration untouched', () => {
+    const result = automator.mergeMCPConfig(existingConfig, newConfig, MergeStrategy.SKIP, { prune: true });
+    expect(result).toEqual(existingConfig);
+  });
+});
@@ -0,0 +1,46 @@
+import { OptionResolver } from '../config/options';
+
+describe('Option Resolution', () => {
+  test('falls back from CLI flags to repos.yaml to defaults', () => {
+    const { settings, sources } = OptionResolver.resolve(
+      { concurrency: 2 },
+      { concurrency: 5, verbose: true, continue_on_error: false }
+    );
+
+    expect(settings.concurrency).toBe(2);
+    expect(sources.concurrency).toBe('cli');
+    expect(settings.verbose).toBe(true);
+    expect(sources.verbose).toBe('repos.yaml');
+    expect(settings.continueOnError).toBe(false);
+    expect(settings.prune).toBe(false);
+    expect(sources.prune).toBe('default');
+  });
+
+  test('a CLI merge strategy replaces the strategy in repos.yaml', () => {
+    const { settings, sources } = OptionResolver.resolve(
+      { forceOverwrite: true },
+      { merge: true, overwrite_existing: true }
+    );
+
+    expect(settings.forceOverwrite).toBe(true);
+    expect(settings.merge).toBe(false);
+    expect(settings.mergeOverwrite).toBe(false);
+    expect(sources.merge).toBe('default');
+  });
+
+  test('uses the strategy from repos.yaml when no strategy flag is given', () => {
+    const { settings } = OptionResolver.resolve({ verbose: true }, { deep_merge: true, prefer: 'existing' });
+
+    expect(settings.deepMerge).toBe(true);
+    expect(settings.mergePrecedence).toBe('existing');
+  });
+
+  test('reports conflicts with the place each setting came from', () => {
+    expect(() => OptionResolver.resolve({}, { force_overwrite: true, skip_existing: true }))
+      .toThrow('options.force_overwrite in repos.yaml cannot be used with options.skip_existing in repos.yaml');
+    expect(() => OptionResolver.resolve({ mergeOverwrite: true }, {}))
+      .toThrow('--overwrite-existing requires --merge');
+    expect(() => OptionResolver.resolve({}, { prefer: 'new' }))
+      .toThrow('options.prefer in repos.yaml requires --deep-merge');
+  });
+});
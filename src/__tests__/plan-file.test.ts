@@ -0,0 +1,49 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { PlanFile, PLAN_FILE_VERSION } from '../plan/plan-file';
+import { ConfigurationPlan, MCPConfig, MergeStrategy } from '../types';
+
+describe('Plan File', () => {
+  const config: MCPConfig = {
+    mcpServers: {
+      'server': { type: 'http', url: 'https://example.com', tools: ['*'] }
+    }
+  };
+
+  test('fingerprint ignores key order', () => {
+    const reordered: MCPConfig = {
+      mcpServers: {
+        'server': { tools: ['*'], url: 'https://example.com', type: 'http' }
+      }
+    };
+    expect(PlanFile.fingerprint(config)).toBe(PlanFile.fingerprint(reordered));
+  });
+
+  test('fingerprint distinguishes a missing config', () => {
+    expect(PlanFile.fingerprint(null)).toBe('none');
+    expect(PlanFile.fingerprint(config)).not.toBe('none');
+  });
+
+  test('round-trips a plan and rejects unknown versions', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-file-'));
+    const planPath = path.join(dir, 'plan.json');
+    const plan: ConfigurationPlan = {
+      version: PLAN_FILE_VERSION,
+      createdAt: new Date().toISOString(),
+      mergeStrategy: MergeStrategy.MERGE,
+      configHashes: { repoConfig: 'a', mcpConfig: 'b' },
+      repositories: []
+    };
+
+    try {
+      await PlanFile.write(planPath, plan);
+      expect(await PlanFile.read(planPath)).toEqual(plan);
+
+      await fs.writeJson(planPath, { ...plan, version: 99 });
+      await expect(PlanFile.read(planPath)).rejects.toThrow(/Unsupported plan file version/);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
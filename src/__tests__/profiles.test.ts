@@ -0,0 +1,91 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileResolver } from '../config/profiles';
+import { MCPConfig, RepoConfig, Repository } from '../types';
+import { Glob } from '../utils/glob';
+
+describe('MCP Profiles', () => {
+  const server = (url: string) => ({ type: 'http' as const, url, tools: ['*'] });
+
+  const repo = (fullName: string, topics: string[] = []): Repository => ({
+    name: fullName.split('/')[1],
+    owner: fullName.split('/')[0],
+    fullName,
+    hasAdminAccess: true,
+    topics
+  });
+
+  const repoConfig: RepoConfig = {
+    repositories: ['acme/billing-service', 'acme/web-app', 'acme/docs'],
+    profiles: {
+      common: { mcpServers: { github: server('https://github.example.com') } },
+      python: { mcpServers: { pypi: server('https://pypi.example.com') } },
+      frontend: {
+        mcpServers: { github: server('https://frontend.example.com') },
+        remove: ['legacy']
+      }
+    },
+    base_profile: 'common',
+    profile_assignments: [
+      { profiles: ['python'], patterns: ['acme/*-service'] },
+      { profiles: ['frontend'], topics: ['Frontend'] }
+    ]
+  };
+
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'profiles-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('assigns profiles by pattern and topic after the base profile', async () => {
+    const resolver = await ProfileResolver.load(repoConfig, path.join(tempDir, 'repos.yaml'));
+
+    expect(resolver.profilesFor(repo('acme/billing-service'))).toEqual(['common', 'python']);
+    expect(resolver.profilesFor(repo('acme/web-app', ['frontend']))).toEqual(['common', 'frontend']);
+    expect(resolver.profilesFor(repo('acme/docs'))).toEqual(['common']);
+  });
+
+  test('later profiles replace servers and combine removals', async () => {
+    const base: MCPConfig = { mcpServers: { shared: server('https://shared.example.com') }, remove: ['old'] };
+    const resolver = await ProfileResolver.load(repoConfig, path.join(tempDir, 'repos.yaml'), base);
+
+    const resolved = resolver.resolve(repo('acme/web-app', ['frontend']));
+    expect(resolved?.mcpServers).toEqual({
+      shared: server('https://shared.example.com'),
+      github: server('https://frontend.example.com')
+    });
+    expect(resolved?.remove).toEqual(['old', 'legacy']);
+  });
+
+  test('returns null when nothing applies to a repository', async () => {
+    const config: RepoConfig = { ...repoConfig, base_profile: undefined };
+    const resolver = await ProfileResolver.load(config, path.join(tempDir, 'repos.yaml'));
+
+    expect(resolver.resolve(repo('acme/docs'))).toBeNull();
+  });
+
+  test('loads profile config files relative to repos.yaml', async () => {
+    await fs.writeJson(path.join(tempDir, 'python.json'), { mcpServers: { pypi: server('https://file.example.com') } });
+    const config: RepoConfig = {
+      repositories: ['acme/api'],
+      profiles: { python: { config: 'python.json' } },
+      base_profile: 'python'
+    };
+    const resolver = await ProfileResolver.load(config, path.join(tempDir, 'repos.yaml'));
+
+    expect(resolver.resolve(repo('acme/api'))?.mcpServers.pypi.url).toBe('https://file.example.com');
+  });
+
+  test('glob patterns do not cross the owner separator', () => {
+    expect(Glob.matches('acme/billing-service', 'acme/*-service')).toBe(true);
+    expect(Glob.matches('ACME/Billing-Service', 'acme/*-service')).toBe(true);
+    expect(Glob.matches('acme/billing-service', '*-service')).toBe(false);
+    expect(Glob.matches('acme/billing-service', '**-service')).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BrowserAutomator } from '../browser/automator';
+import { ConfigMerger } from '../config/merge';
+import { ConfigurationEngine } from '../engine';
+import { GitHubAPIAutomator } from '../github/api';
+import { RepositoryDiscovery } from '../github/discovery';
+import { RunStateStore } from '../state/run-state';
+import { ConfigurationOptions, MCPConfig, RollbackOptions } from '../types';
+
+jest.mock('../github/api');
+jest.mock('../browser/automator');
+
+describe('Rollback', () => {
+  const desiredConfig: MCPConfig = { mcpServers: { sentry: { type: 'http', url: 'https://mcp.sentry.dev', tools: ['*'] } } };
+  const previousConfig: MCPConfig = { mcpServers: { existing: { type: 'local', command: 'npx', tools: ['*'] } } };
+  let dir: string;
+  // Live configurations by repository, as read and written through the API
+  let live: Record<string, MCPConfig | null>;
+
+  // Force the desired configuration onto every repository and return the run ID
+  const configure = async (): Promise<string> => {
+    await new ConfigurationEngine().configure({
+      repoConfig: path.join(dir, 'repos.yaml'),
+      mcpConfig: [path.join(dir, 'mcp.json')],
+      forceOverwrite: true,
+      concurrency: 1,
+      apiOnly: true,
+      stateDir: path.join(dir, 'state')
+    } as ConfigurationOptions);
+    return (await new RunStateStore(path.join(dir, 'state')).loadLatest())!.runId;
+  };
+
+  const rollback = (runId: string, force = false) => new ConfigurationEngine().rollback({
+    runId,
+    dryRun: false,
+    force,
+    concurrency: 1,
+    apiOnly: true,
+    interactiveAuth: false,
+    stateDir: path.join(dir, 'state')
+  } as RollbackOptions);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rollback-'));
+    await fs.writeFile(path.join(dir, 'repos.yaml'), 'repositories:\n  - acme/api\n  - acme/web\n');
+    await fs.writeJson(path.join(dir, 'mcp.json'), desiredConfig);
+    live = { 'acme/api': previousConfig, 'acme/web': null };
+
+    const api = {
+      hasRecordedRead: true,
+      readMCPConfig: jest.fn(async (name: string) => live[name]),
+      updateMCPConfig: jest.fn(async (name: string, config: MCPConfig) => {
+        live[name] = config;
+      }),
+      initialize: jest.fn(),
+      cleanup: jest.fn(),
+      mergeMCPConfig: ConfigMerger.merge.bind(ConfigMerger)
+    };
+    jest.mocked(GitHubAPIAutomator).mockImplementation(() => api as unknown as GitHubAPIAutomator);
+    jest.mocked(BrowserAutomator).mockImplementation(() => ({ cleanup: jest.fn() }) as unknown as BrowserAutomator);
+    jest.spyOn(RepositoryDiscovery, 'discover').mockResolvedValue({
+      repositories: ['api', 'web'].map(name => ({ name, owner: 'acme', fullName: `acme/${name}`, hasAdminAccess: true, topics: [] })),
+      excluded: []
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  test('restores the configuration each repository had before the run', async () => {
+    const runId = await configure();
+    expect(live).toEqual({ 'acme/api': desiredConfig, 'acme/web': desiredConfig });
+
+    const summary = await rollback(runId);
+
+    expect(summary.successful).toBe(2);
+    // A repository without configuration gets an empty server set back
+    expect(live).toEqual({ 'acme/api': previousConfig, 'acme/web': { mcpServers: {} } });
+  });
+
+  test('leaves a repository changed since the run alone unless forced', async () => {
+    const runId = await configure();
+    const editedConfig: MCPConfig = { mcpServers: { ...desiredConfig.mcpServers, ...previousConfig.mcpServers } };
+    live['acme/api'] = editedConfig;
+
+    const summary = await rollback(runId);
+
+    expect(summary.failed).toBe(1);
+    expect(summary.errors).toEqual([expect.objectContaining({
+      repository: 'acme/api',
+      error: expect.stringMatching(/changed since run .*; use --force to roll back anyway/)
+    })]);
+    expect(live).toEqual({ 'acme/api': editedConfig, 'acme/web': { mcpServers: {} } });
+
+    await rollback(runId, true);
+    expect(live['acme/api']).toEqual(previousConfig);
+  });
+});
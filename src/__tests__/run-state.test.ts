@@ -0,0 +1,112 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RunStateStore } from '../state/run-state';
+import { ConfigHashes, MergeStrategy, OperationResult, Repository } from '../types';
+
+describe('Run State', () => {
+  let stateDir: string;
+  let store: RunStateStore;
+
+  const hashes: ConfigHashes = {
+    repoConfig: 'repo-hash',
+    mcpConfig: 'mcp-hash'
+  };
+
+  const repo = (fullName: string): Repository => ({
+    name: fullName.split('/')[1],
+    owner: fullName.split('/')[0],
+    fullName,
+    hasAdminAccess: true,
+    topics: []
+  });
+
+  const result = (repository: string, success: boolean): OperationResult => ({
+    repository,
+    success,
+    changes: {},
+    error: success ? undefined : 'Error: boom',
+    duration: 1
+  });
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-state-'));
+    store = new RunStateStore(stateDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(stateDir);
+  });
+
+  test('persists each recorded result to disk', async () => {
+    const state = await store.create(hashes, MergeStrategy.MERGE);
+    await store.recordResult(state, result('me/one', true));
+    await store.recordResult(state, result('me/two', false));
+
+    const loaded = await store.load(state.runId);
+    expect(loaded.results['me/one'].status).toBe('succeeded');
+    expect(loaded.results['me/two'].status).toBe('failed');
+    expect(loaded.results['me/two'].result.error).toBe('Error: boom');
+  });
+
+  test('loadLatest returns null when no run exists', async () => {
+    expect(await store.loadLatest()).toBeNull();
+  });
+
+  test('resume selects repositories that have not succeeded', async () => {
+    const state = await store.create(hashes, MergeStrategy.MERGE);
+    await store.recordResult(state, result('me/one', true));
+    await store.recordResult(state, result('me/two', false));
+
+    const repos = [repo('me/one'), repo('me/two'), repo('me/three')];
+    const pending = RunStateStore.selectPending(repos, state, false);
+    expect(pending.map(r => r.fullName)).toEqual(['me/two', 'me/three']);
+  });
+
+  test('retry-failed selects only failed repositories', async () => {
+    const state = await store.create(hashes, MergeStrategy.MERGE);
+    await store.recordResult(state, result('me/one', true));
+    await store.recordResult(state, result('me/two', false));
+
+    const repos = [repo('me/one'), repo('me/two'), repo('me/three')];
+    const pending = RunStateStore.selectPending(repos, state, true);
+    expect(pending.map(r => r.fullName)).toEqual(['me/two']);
+  });
+
+  test('refuses a run recorded with a different MCP config', async () => {
+    const state = await store.create(hashes, MergeStrategy.MERGE);
+    expect(() => store.assertCompatible(state, { ...hashes, mcpConfig: 'other' }, MergeStrategy.MERGE))
+      .toThrow(/different MCP configuration/);
+  });
+
+  test('refuses a run recorded with a different merge strategy', async () => {
+    const state = await store.create(hashes, MergeStrategy.MERGE);
+    expect(() => store.assertCompatible(state, hashes, MergeStrategy.FORCE_OVERWRITE))
+      .toThrow(/merge strategy/);
+  });
+
+  test('snapshots applied MCP changes for rollback', async () => {
+    const state = await store.create(hashes, MergeStrategy.MERGE);
+    const after = { mcpServers: { server: { type: 'http' as const, url: 'https://example.com', tools: ['*'] } } };
+
+    await store.recordResult(state, {
+      ...result('me/changed', true),
+      changes: { mcpConfig: { before: null, after, strategy: 'merge' } }
+    });
+    await store.recordResult(state, {
+      ...result('me/same', true),
+      changes: { mcpConfig: { before: after, after, strategy: 'merge' } }
+    });
+
+    const snapshots = await store.loadSnapshots(state.runId);
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].repository).toBe('me/changed');
+    expect(snapshots[0].before).toBeNull();
+    expect(snapshots[0].after).toEqual(after);
+
+    // The configs, which may include credentials, are only kept in snapshots
+    const statePath = path.join(store.runDirectory(state.runId), 'state.json');
+    expect((await store.load(state.runId)).results['me/changed'].result.changes).toEqual({});
+    expect((await fs.stat(statePath)).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,135 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigParser } from '../config/parser';
+import { SchemaValidator } from '../config/schema';
+
+describe('Schema Validation', () => {
+  let tempDir: string;
+
+  const write = async (name: string, content: string) => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'schema-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test('reports every error with its path and position', async () => {
+    const file = await write('repos.yaml', [
+      'repositories:',
+      '  - "me/one"',
+      '  - 42',
+      'options:',
+      '  concurrency: 0',
+      ''
+    ].join('\n'));
+
+    const issues = await ConfigParser.validateFile('repos', file);
+    expect(issues).toEqual([
+      { severity: 'error', path: '$.repositories[1]', message: 'must be a string', line: 3, column: 5 },
+      { severity: 'error', path: '$.options.concurrency', message: 'must be >= 1', line: 5, column: 16 }
+    ]);
+  });
+
+  test('warns about unknown keys with a suggestion', async () => {
+    const file = await write('repos.yaml', [
+      'all_accessible_repos: true',
+      'filters:',
+      '  owner_onyl: true',
+      '  stars_above: 10',
+      ''
+    ].join('\n'));
+
+    const issues = await ConfigParser.validateFile('repos', file);
+    expect(issues.map(issue => [issue.severity, issue.path, issue.message, issue.line])).toEqual([
+      ['warning', '$.filters.owner_onyl', 'unknown key "owner_onyl" (did you mean "owner_only"?)', 3],
+      ['warning', '$.filters.stars_above', 'unknown key "stars_above"', 4]
+    ]);
+  });
+
+  test('locates errors in JSON MCP configs', async () => {
+    const file = await write('mcp.json', JSON.stringify({
+      mcpServers: {
+        github: { type: 'https', url: 'https://example.com', tools: ['*'] }
+      }
+    }, null, 2));
+
+    const issues = await ConfigParser.validateFile('mcp-config', file);
+    expect(issues).toContainEqual({
+      severity: 'error',
+      path: '$.mcpServers.github.type',
+      message: 'must be one of: "http", "local"',
+      line: 4,
+      column: 15
+    });
+  });
+
+  test('parses YAML and JSON-with-comments MCP configs', async () => {
+    const yamlFile = await write('mcp.yaml', [
+      '# Owned by the platform team',
+      'mcpServers:',
+      '  github:',
+      '    type: http  # hosted by GitHub',
+      '    url: https://api.github.com/mcp',
+      '    tools: ["*"]',
+      ''
+    ].join('\n'));
+    const jsoncFile = await write('mcp.jsonc', [
+      '{',
+      '  // Owned by the platform team',
+      '  "mcpServers": {',
+      '    "github": { "type": "http", "url": "https://api.github.com/mcp", "tools": ["*"], },',
+      '  },',
+      '}'
+    ].join('\n'));
+
+    const fromYAML = await ConfigParser.parseMCPConfig(yamlFile);
+    const fromJSONC = await ConfigParser.parseMCPConfig(jsoncFile);
+    expect(fromYAML).toEqual(fromJSONC);
+    expect(fromYAML.mcpServers.github.url).toBe('https://api.github.com/mcp');
+  });
+
+  test('reports JSON syntax errors with their position', async () => {
+    const file = await write('mcp.json', '{\n  "mcpServers": {\n    "github": {\n  }\n');
+
+    await expect(ConfigParser.parseMCPConfig(file)).rejects.toThrow(/mcp\.json:5:1 CloseBraceExpected/);
+  });
+
+  test('locates errors in YAML MCP configs', async () => {
+    const file = await write('mcp.yml', 'mcpServers:\n  # comment\n  github:\n    type: http\n    tools: ["*"]\n');
+
+    const issues = await ConfigParser.validateFile('mcp-config', file);
+    expect(issues).toEqual([
+      { severity: 'error', path: '$.mcpServers.github', message: 'must have a "url" property', line: 4, column: 5 }
+    ]);
+  });
+
+  test('allows partial servers in configs that extend another', () => {
+    const issues = SchemaValidator.validate('mcp-config', {
+      extends: 'base.json',
+      mcpServers: { github: { tools: ['get_issue'] }, legacy: null }
+    });
+    expect(issues).toEqual([]);
+  });
+
+  test('parsing fails with every schema error listed', async () => {
+    const file = await write('secrets.yaml', 'secrets:\n  A: 1\n  B: true\n');
+
+    await expect(ConfigParser.parseSecretsConfig(file)).rejects.toThrow(/2 errors:[\s\S]*\$\.secrets\.A[\s\S]*\$\.secrets\.B/);
+  });
+
+  test('environment secrets go to the copilot environment unless another is named', async () => {
+    const file = await write('secrets.yaml', 'environment:\n  secrets:\n    API_KEY: "{{ env.UNSET_FOR_TEST }}"\n');
+
+    const config = await ConfigParser.processSecretsConfig(await ConfigParser.parseSecretsConfig(file));
+    expect(config.environment).toEqual({ name: 'copilot', secrets: { API_KEY: '' } });
+    expect(SchemaValidator.validate('secrets', { environment: { name: '' } })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigParser } from '../config/parser';
+import { DotenvProvider, SecretResolver } from '../config/secret-providers';
+
+describe('Secret Providers', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'secret-providers-'));
+    process.env.PROVIDER_TEST_TOKEN = 'from-env';
+  });
+
+  afterEach(async () => {
+    delete process.env.PROVIDER_TEST_TOKEN;
+    await fs.remove(dir);
+  });
+
+  test('resolves values from env, dotenv files, files and commands', async () => {
+    await fs.writeFile(path.join(dir, '.env'), 'export API_KEY="dotenv value"\n# comment\nREGION=eu-west-1 # inline\n');
+    await fs.writeFile(path.join(dir, 'token.txt'), 'from-file\n');
+
+    const resolver = new SecretResolver({ envFiles: [path.join(dir, '.env')], baseDir: dir });
+    const values = await resolver.resolveAll({
+      ENV: '{{ env.PROVIDER_TEST_TOKEN }}',
+      DOTENV: 'key={{ dotenv.API_KEY }} region={{ dotenv.REGION }}',
+      FILE: '{{ file "token.txt" }}',
+      CMD: '{{ cmd \'echo from-command\' }}'
+    }, 'secrets');
+
+    expect(values).toEqual({
+      ENV: 'from-env',
+      DOTENV: 'key=dotenv value region=eu-west-1',
+      FILE: 'from-file',
+      CMD: 'from-command'
+    });
+  });
+
+  test('uses the default when a value cannot be resolved', async () => {
+    const resolver = new SecretResolver({ strict: true, baseDir: dir });
+    const values = await resolver.resolveAll({
+      LEVEL: '{{ env.PROVIDER_TEST_UNSET | default "info" }}',
+      TOKEN: '{{ file "missing.txt" | default \'\' }}'
+    }, 'variables');
+
+    expect(values).toEqual({ LEVEL: 'info', TOKEN: '' });
+    expect(() => resolver.assertResolved()).not.toThrow();
+  });
+
+  test('strict mode reports every value it cannot resolve at once', async () => {
+    const config = {
+      secrets: { A: '{{ env.PROVIDER_TEST_UNSET }}', B: '{{ env.PROVIDER_TEST_TOKEN }}' },
+      environment: { secrets: { C: '{{ cmd "exit 3" }}' } }
+    };
+
+    await expect(ConfigParser.processSecretsConfig(config, { strict: true }))
+      .rejects.toThrow(/2 required values:\n {2}secrets\.A: Environment variable PROVIDER_TEST_UNSET is not set\n {2}environment\.secrets\.C: Command failed with exit code 3/);
+    expect(await ConfigParser.processSecretsConfig(config)).toEqual({
+      secrets: { A: '', B: 'from-env' },
+      environment: { name: 'copilot', secrets: { C: '' } }
+    });
+  });
+
+  test('rejects unknown templates', async () => {
+    await expect(new SecretResolver().resolveAll({ A: '{{ evn.TOKEN }}' }, 'secrets')).rejects.toThrow(/Unknown template \{\{ evn\.TOKEN \}\} in secrets\.A/);
+  });
+
+  test('parses quoted dotenv values', () => {
+    expect(DotenvProvider.parse('A="multi\\nline"\nB=\'#not a comment\'\nC=plain # comment\nnot a line\n')).toEqual({
+      A: 'multi\nline',
+      B: '#not a comment',
+      C: 'plain'
+    });
+  });
+
+  test('strict template rendering fails on unset environment variables', () => {
+    const repository = { name: 'api', owner: 'acme', fullName: 'acme/api', hasAdminAccess: true, topics: [] };
+    const config = { mcpServers: { api: { type: 'http' as const, url: 'https://example.com/{{ env.PROVIDER_TEST_UNSET }}', tools: ['*'] } } };
+
+    expect(() => ConfigParser.renderMCPConfig(config, repository, true)).toThrow(/PROVIDER_TEST_UNSET is not set/);
+    expect(ConfigParser.renderMCPConfig(config, repository).mcpServers.api.url).toBe('https://example.com/');
+  });
+});
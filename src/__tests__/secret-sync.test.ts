@@ -0,0 +1,253 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BrowserAutomator } from '../browser/automator';
+import { ConfigMerger } from '../config/merge';
+import { ConfigurationEngine } from '../engine';
+import { GitHubAPIAutomator } from '../github/api';
+import { GitHubClient } from '../github/client';
+import { RepositoryDiscovery } from '../github/discovery';
+import { ManagedValuesStore } from '../state/managed-values';
+import { RunStateStore } from '../state/run-state';
+import { ApplyOptions, ConfigurationOptions, MCPConfig, SecretsConfig } from '../types';
+
+jest.mock('../github/api');
+jest.mock('../browser/automator');
+
+// Repository and environment secrets and variables held in memory, recording every write
+class FakeGitHub {
+  secrets = new Set<string>();
+  variables: Record<string, string> = {};
+  environments: Record<string, { secrets: Set<string>; variables: Record<string, string> }> = {};
+  writes: string[] = [];
+
+  async listRepositorySecrets(): Promise<string[]> {
+    return [...this.secrets];
+  }
+
+  async listRepositoryVariables(): Promise<Record<string, string>> {
+    return { ...this.variables };
+  }
+
+  async setRepositorySecret(_repo: string, name: string): Promise<void> {
+    this.secrets.add(name);
+    this.writes.push(`set secret ${name}`);
+  }
+
+  async setRepositoryVariable(_repo: string, name: string, value: string): Promise<void> {
+    this.variables[name] = value;
+    this.writes.push(`set variable ${name}`);
+  }
+
+  async deleteRepositorySecret(_repo: string, name: string): Promise<void> {
+    this.secrets.delete(name);
+    this.writes.push(`delete secret ${name}`);
+  }
+
+  async deleteRepositoryVariable(_repo: string, name: string): Promise<void> {
+    delete this.variables[name];
+    this.writes.push(`delete variable ${name}`);
+  }
+
+  async hasEnvironment(_repo: string, environment: string): Promise<boolean> {
+    return environment in this.environments;
+  }
+
+  async ensureEnvironment(_repo: string, environment: string): Promise<boolean> {
+    const created = !(environment in this.environments);
+    this.environments[environment] ??= { secrets: new Set(), variables: {} };
+    return created;
+  }
+
+  async listEnvironmentSecrets(_repo: string, environment: string): Promise<string[]> {
+    return [...this.environments[environment].secrets];
+  }
+
+  async listEnvironmentVariables(_repo: string, environment: string): Promise<Record<string, string>> {
+    return { ...this.environments[environment].variables };
+  }
+
+  async setEnvironmentSecret(_repo: string, environment: string, name: string): Promise<void> {
+    this.environments[environment].secrets.add(name);
+    this.writes.push(`set secret ${name} in ${environment}`);
+  }
+
+  async setEnvironmentVariable(_repo: string, environment: string, name: string, value: string): Promise<void> {
+    this.environments[environment].variables[name] = value;
+    this.writes.push(`set variable ${name} in ${environment}`);
+  }
+
+  async deleteEnvironmentSecret(_repo: string, environment: string, name: string): Promise<void> {
+    this.environments[environment].secrets.delete(name);
+    this.writes.push(`delete secret ${name} in ${environment}`);
+  }
+
+  async deleteEnvironmentVariable(_repo: string, environment: string, name: string): Promise<void> {
+    delete this.environments[environment].variables[name];
+    this.writes.push(`delete variable ${name} in ${environment}`);
+  }
+}
+
+describe('Secret Sync', () => {
+  const config: MCPConfig = { mcpServers: { api: { type: 'http', url: 'https://example.com', tools: ['*'] } } };
+  let dir: string;
+  let github: FakeGitHub;
+
+  const options = async (secretsConfig: SecretsConfig, pruneSecrets = false): Promise<ConfigurationOptions> => {
+    await fs.writeJson(path.join(dir, 'secrets.yaml'), secretsConfig);
+    return {
+      repoConfig: path.join(dir, 'repos.yaml'),
+      mcpConfig: [path.join(dir, 'mcp.json')],
+      secretsConfig: path.join(dir, 'secrets.yaml'),
+      merge: true,
+      concurrency: 1,
+      apiOnly: true,
+      pruneSecrets,
+      stateDir: path.join(dir, 'state')
+    } as ConfigurationOptions;
+  };
+
+  // Configure the repository and return the changes recorded for it
+  const configure = async (secretsConfig: SecretsConfig, pruneSecrets = false) => {
+    github.writes = [];
+    await new ConfigurationEngine().configure(await options(secretsConfig, pruneSecrets));
+    const run = await new RunStateStore(path.join(dir, 'state')).loadLatest();
+    return run!.results['acme/api'].result.changes;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'secret-sync-'));
+    await fs.writeFile(path.join(dir, 'repos.yaml'), 'repositories:\n  - acme/api\n');
+    await fs.writeJson(path.join(dir, 'mcp.json'), config);
+    github = new FakeGitHub();
+
+    // The MCP configuration is already in place, so only values change
+    const api = { initialize: jest.fn(), cleanup: jest.fn(), readMCPConfig: jest.fn().mockResolvedValue(config), mergeMCPConfig: ConfigMerger.merge.bind(ConfigMerger) };
+    jest.mocked(GitHubAPIAutomator).mockImplementation(() => api as unknown as GitHubAPIAutomator);
+    jest.mocked(BrowserAutomator).mockImplementation(() => ({ cleanup: jest.fn() }) as unknown as BrowserAutomator);
+    jest.spyOn(GitHubClient, 'create').mockResolvedValue(github as unknown as GitHubClient);
+    jest.spyOn(RepositoryDiscovery, 'discover').mockResolvedValue({
+      repositories: [{ name: 'api', owner: 'acme', fullName: 'acme/api', hasAdminAccess: true, topics: [] }],
+      excluded: []
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  test('reports added and updated secrets and skips unchanged variables', async () => {
+    github.secrets.add('COPILOT_MCP_TOKEN');
+    github.variables = { REGION: 'eu-west-1', LEVEL: 'debug' };
+
+    const changes = await configure({
+      secrets: { COPILOT_MCP_TOKEN: 'one', COPILOT_MCP_KEY: 'two' },
+      variables: { REGION: 'eu-west-1', LEVEL: 'info', MODE: 'fast' }
+    });
+
+    expect(changes.secrets).toEqual({ added: ['COPILOT_MCP_KEY'], updated: ['COPILOT_MCP_TOKEN'], unchanged: [], removed: [] });
+    expect(changes.variables).toEqual({ added: ['MODE'], updated: ['LEVEL'], unchanged: ['REGION'], removed: [] });
+    expect(github.writes).toEqual([
+      'set secret COPILOT_MCP_TOKEN',
+      'set secret COPILOT_MCP_KEY',
+      'set variable LEVEL',
+      'set variable MODE'
+    ]);
+  });
+
+  test('prunes only values it set that the secrets file no longer defines', async () => {
+    github.secrets.add('MANUAL_SECRET');
+    github.variables = { MANUAL: 'kept' };
+    await configure({ secrets: { COPILOT_MCP_OLD: 'a', COPILOT_MCP_TOKEN: 'b' }, variables: { OLD: '1', REGION: 'eu' } });
+
+    const withoutPrune = await configure({ secrets: { COPILOT_MCP_TOKEN: 'b' }, variables: { REGION: 'eu' } });
+    expect(withoutPrune.secrets?.removed).toEqual([]);
+    expect(github.secrets).toContain('COPILOT_MCP_OLD');
+
+    const changes = await configure({ secrets: { COPILOT_MCP_TOKEN: 'b' }, variables: { REGION: 'eu' } }, true);
+    expect(changes.secrets).toEqual({ added: [], updated: ['COPILOT_MCP_TOKEN'], unchanged: [], removed: ['COPILOT_MCP_OLD'] });
+    expect(changes.variables).toEqual({ added: [], updated: [], unchanged: ['REGION'], removed: ['OLD'] });
+    expect([...github.secrets].sort()).toEqual(['COPILOT_MCP_TOKEN', 'MANUAL_SECRET']);
+    expect(github.variables).toEqual({ MANUAL: 'kept', REGION: 'eu' });
+
+    expect(await new ManagedValuesStore(path.join(dir, 'state')).get('acme/api', 'repository')).toEqual({
+      secrets: ['COPILOT_MCP_TOKEN'],
+      variables: ['REGION']
+    });
+  });
+
+  test('plans each value as added, updated or unchanged', async () => {
+    github.secrets.add('COPILOT_MCP_TOKEN');
+    github.variables = { REGION: 'eu-west-1', LEVEL: 'debug' };
+
+    const { repositories: [plan] } = await new ConfigurationEngine().plan(await options({
+      secrets: { COPILOT_MCP_TOKEN: 'one', COPILOT_MCP_KEY: 'two' },
+      variables: { REGION: 'eu-west-1', LEVEL: 'info', MODE: 'fast' },
+      environment: { name: 'copilot', variables: { COPILOT_MCP_REGION: 'eu' } }
+    }), path.join(dir, 'plan.json'));
+
+    expect(plan.secrets).toEqual([
+      { name: 'COPILOT_MCP_TOKEN', action: 'update' },
+      { name: 'COPILOT_MCP_KEY', action: 'add' }
+    ]);
+    // The environment does not exist yet, so its values are all added
+    expect(plan.variables).toEqual([
+      { name: 'REGION', action: 'unchanged', value: 'eu-west-1' },
+      { name: 'LEVEL', action: 'update', value: 'info' },
+      { name: 'MODE', action: 'add', value: 'fast' },
+      { name: 'COPILOT_MCP_REGION', action: 'add', value: 'eu', environment: 'copilot' }
+    ]);
+    expect(github.writes).toEqual([]);
+  });
+
+  test('plans the values to prune and applies only those', async () => {
+    await configure({ secrets: { COPILOT_MCP_OLD: 'a', COPILOT_MCP_TOKEN: 'b' }, variables: { OLD: '1', REGION: 'eu' } });
+
+    const planFile = path.join(dir, 'plan.json');
+    const { repositories: [plan] } = await new ConfigurationEngine().plan(
+      await options({ secrets: { COPILOT_MCP_TOKEN: 'b' }, variables: { REGION: 'eu' } }, true),
+      planFile
+    );
+    expect(plan.secrets).toEqual([
+      { name: 'COPILOT_MCP_TOKEN', action: 'update' },
+      { name: 'COPILOT_MCP_OLD', action: 'remove' }
+    ]);
+    expect(plan.variables).toEqual([
+      { name: 'REGION', action: 'unchanged', value: 'eu' },
+      { name: 'OLD', action: 'remove' }
+    ]);
+
+    // A value this tool set after planning is not in the plan, so it is kept
+    github.variables.LATER = '2';
+    await new ManagedValuesStore(path.join(dir, 'state')).set('acme/api', 'repository', { secrets: ['COPILOT_MCP_OLD', 'COPILOT_MCP_TOKEN'], variables: ['LATER', 'OLD', 'REGION'] });
+
+    github.writes = [];
+    await new ConfigurationEngine().apply({ planFile, concurrency: 1, apiOnly: true, stateDir: path.join(dir, 'state') } as ApplyOptions);
+
+    expect(github.writes).toEqual(['set secret COPILOT_MCP_TOKEN', 'delete secret COPILOT_MCP_OLD', 'delete variable OLD']);
+    expect(github.variables).toEqual({ REGION: 'eu', LATER: '2' });
+    expect((await new ManagedValuesStore(path.join(dir, 'state')).get('acme/api', 'repository')).variables).toEqual(['LATER', 'REGION']);
+  });
+
+  test('prunes the values of an environment the secrets file no longer names', async () => {
+    await configure({ environment: { name: 'copilot', secrets: { COPILOT_MCP_KEY: 'a' }, variables: { COPILOT_MCP_REGION: 'eu' } } });
+    expect(github.environments.copilot.secrets).toContain('COPILOT_MCP_KEY');
+
+    const { repositories: [plan] } = await new ConfigurationEngine().plan(
+      await options({ variables: { REGION: 'eu' } }, true),
+      path.join(dir, 'plan.json')
+    );
+    expect(plan.secrets).toEqual([{ name: 'COPILOT_MCP_KEY', action: 'remove', environment: 'copilot' }]);
+
+    const changes = await configure({ variables: { REGION: 'eu' } }, true);
+    expect(changes.environment).toBeUndefined();
+    expect(changes.prunedEnvironments).toEqual([{
+      name: 'copilot',
+      secrets: { added: [], updated: [], unchanged: [], removed: ['COPILOT_MCP_KEY'] },
+      variables: { added: [], updated: [], unchanged: [], removed: ['COPILOT_MCP_REGION'] }
+    }]);
+    expect(github.environments.copilot).toEqual({ secrets: new Set(), variables: {} });
+  });
+});
@@ -0,0 +1,69 @@
+import { ConfigParser } from '../config/parser';
+import { MCPConfig, Repository } from '../types';
+
+describe('MCP Config Templates', () => {
+  const repository: Repository = {
+    name: 'web-app',
+    owner: 'acme',
+    fullName: 'acme/web-app',
+    hasAdminAccess: true,
+    topics: ['frontend', 'react']
+  };
+
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, TEMPLATE_TEST_TOKEN: 'secret-token' };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('renders env and repository placeholders', () => {
+    const rendered = ConfigParser.renderTemplate(
+      '{{ repo.owner }}/{{repo.name}} {{ repo.fullName }} [{{ repo.topics }}] {{ env.TEMPLATE_TEST_TOKEN }}',
+      { repo: repository }
+    );
+    expect(rendered).toBe('acme/web-app acme/web-app [frontend,react] secret-token');
+  });
+
+  test('renders url, headers, args and env of every server', () => {
+    const config: MCPConfig = {
+      mcpServers: {
+        'project': {
+          type: 'http',
+          url: 'https://mcp.example.com/{{ repo.fullName }}',
+          headers: { 'Authorization': 'Bearer {{ env.TEMPLATE_TEST_TOKEN }}' },
+          tools: ['*']
+        },
+        'files': {
+          type: 'local',
+          command: 'npx',
+          args: ['files-mcp', '--root', '/workspace/{{ repo.name }}'],
+          env: { 'TENANT': '{{ repo.owner }}' },
+          tools: ['*']
+        }
+      }
+    };
+
+    const rendered = ConfigParser.renderMCPConfig(config, repository);
+
+    expect(rendered.mcpServers['project'].url).toBe('https://mcp.example.com/acme/web-app');
+    expect(rendered.mcpServers['project'].headers).toEqual({ 'Authorization': 'Bearer secret-token' });
+    expect(rendered.mcpServers['files'].args).toEqual(['files-mcp', '--root', '/workspace/web-app']);
+    expect(rendered.mcpServers['files'].env).toEqual({ 'TENANT': 'acme' });
+    // The source configuration is left untouched
+    expect(config.mcpServers['files'].env).toEqual({ 'TENANT': '{{ repo.owner }}' });
+  });
+
+  test('rejects unknown repository fields', () => {
+    expect(() => ConfigParser.renderTemplate('{{ repo.nmae }}', { repo: repository }))
+      .toThrow(/Unknown repository template/);
+  });
+
+  test('rejects repository placeholders outside MCP configuration', () => {
+    expect(() => ConfigParser.resolveEnvironmentVariables('{{ repo.name }}'))
+      .toThrow(/can only be used in MCP configuration/);
+  });
+});
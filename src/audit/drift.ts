@@ -0,0 +1,105 @@
+import { DriftFinding, MCPConfig, MCPServerConfig, SecretsConfig } from '../types';
+import { ConfigDiff } from '../plan/diff';
+
+type ServerField = 'type' | 'url' | 'command' | 'args' | 'env' | 'headers' | 'tools';
+
+export class DriftDetector {
+  /**
+   * Compare a repository's live MCP config with the config the merge strategy
+   * says it should have.
+   */
+  static compareConfigs(live: MCPConfig | null, expected: MCPConfig): DriftFinding[] {
+    const findings: DriftFinding[] = [];
+    const liveServers = live?.mcpServers || {};
+    const expectedServers = expected.mcpServers || {};
+
+    for (const [name, expectedServer] of Object.entries(expectedServers)) {
+      const liveServer = liveServers[name];
+      if (!liveServer) {
+        findings.push({ kind: 'missing-server', name, message: `Server "${name}" is missing` });
+        continue;
+      }
+      findings.push(...this.compareServers(name, liveServer, expectedServer));
+    }
+
+    for (const name of Object.keys(liveServers)) {
+      if (!(name in expectedServers)) {
+        findings.push({ kind: 'unexpected-server', name, message: `Server "${name}" is not in the desired configuration` });
+      }
+    }
+
+    return findings;
+  }
+
+  static compareServers(name: string, live: MCPServerConfig, expected: MCPServerConfig): DriftFinding[] {
+    const findings: DriftFinding[] = [];
+    const fields: Array<[ServerField, unknown, unknown]> = [
+      ['type', live.type, expected.type],
+      ['url', live.url, expected.url],
+      ['command', live.command, expected.command],
+      ['args', live.args, expected.args],
+      // Values of env and headers may be secret references, so only keys are compared
+      ['env', this.sortedKeys(live.env), this.sortedKeys(expected.env)],
+      ['headers', this.sortedKeys(live.headers), this.sortedKeys(expected.headers)],
+      // Tool order is not significant
+      ['tools', [...(live.tools || [])].sort(), [...(expected.tools || [])].sort()]
+    ];
+
+    for (const [field, actual, wanted] of fields) {
+      if (!ConfigDiff.isEqual(actual ?? null, wanted ?? null)) {
+        findings.push({
+          kind: 'server-mismatch',
+          name,
+          field,
+          expected: wanted,
+          actual,
+          message: `Server "${name}" ${field === 'env' || field === 'headers' ? `${field} keys differ` : `${field} differs`}`
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Compare the secrets and variables declared in secrets.yaml with the names
+   * (and, for variables, values) present on the repository, or in one of its
+   * environments when one is given.
+   */
+  static compareSecrets(
+    desired: Pick<SecretsConfig, 'secrets' | 'variables'>,
+    existingSecrets: string[],
+    existingVariables: Record<string, string>,
+    environment?: string
+  ): DriftFinding[] {
+    const findings: DriftFinding[] = [];
+    const where = environment ? ` in environment ${environment}` : '';
+
+    for (const name of Object.keys(desired.secrets || {})) {
+      if (!existingSecrets.includes(name)) {
+        findings.push({ kind: 'missing-secret', name, environment, message: `Secret ${name} is missing${where}` });
+      }
+    }
+
+    for (const [name, value] of Object.entries(desired.variables || {})) {
+      if (!(name in existingVariables)) {
+        findings.push({ kind: 'missing-variable', name, environment, message: `Variable ${name} is missing${where}` });
+      } else if (existingVariables[name] !== value) {
+        findings.push({
+          kind: 'variable-mismatch',
+          name,
+          expected: value,
+          actual: existingVariables[name],
+          environment,
+          message: `Variable ${name} has a different value${where}`
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private static sortedKeys(map: Record<string, string> | undefined): string[] | undefined {
+    return map ? Object.keys(map).sort() : undefined;
+  }
+}
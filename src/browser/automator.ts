@@ -1,7 +1,9 @@
 import { Browser, BrowserContext, Page, chromium } from 'playwright';
 import { MCPConfig, MergeStrategy } from '../types';
 import { Logger } from '../utils/logger';
-import { GitHubCLI } from '../github/cli';
+import { Redactor } from '../utils/redactor';
+import { GitHubClient } from '../github/client';
+import { ConfigMerger, MergeOptions } from '../config/merge';
 import chalk from 'chalk';
 import * as fs from 'fs';
 
@@ -76,7 +78,7 @@ export class BrowserAutomator {
 
     try {
       // First try token-based authentication if available
-      this.authToken = await GitHubCLI.getAuthToken();
+      this.authToken = await GitHubClient.resolveToken();
       
       if (!this.interactiveAuthMode) {
         // Try the original token-based approach first
@@ -250,11 +252,11 @@ export class BrowserAutomator {
 
       if (this.debugMode) {
         // Save screenshot for debugging
-        await page.screenshot({ path: `debug-${repositoryName.replace('/', '-')}-page.png`, fullPage: true });
+        await page.screenshot({ path: `debug-${repositoryName.replace('/', '-')}-page.png`, fullPage: true, mask: this.configEditors(page) });
         
         // Save page HTML for debugging
         const html = await page.content();
-        fs.writeFileSync(`debug-${repositoryName.replace('/', '-')}-page.html`, html);
+        fs.writeFileSync(`debug-${repositoryName.replace('/', '-')}-page.html`, Redactor.redact(html));
         
         // Log all form elements and potential config fields
         const formElements = await page.locator('form, textarea, [contenteditable], .cm-content, .CodeMirror, input').all();
@@ -377,7 +379,7 @@ export class BrowserAutomator {
 
       if (this.debugMode) {
         // Save screenshot for debugging
-        await page.screenshot({ path: `debug-${repositoryName.replace('/', '-')}-update.png`, fullPage: true });
+        await page.screenshot({ path: `debug-${repositoryName.replace('/', '-')}-update.png`, fullPage: true, mask: this.configEditors(page) });
       }
 
       // Check if we have access to the settings
@@ -480,48 +482,21 @@ export class BrowserAutomator {
     }
   }
 
-  mergeMCPConfig(existing: MCPConfig | null, newConfig: MCPConfig, strategy: MergeStrategy): MCPConfig {
-    switch (strategy) {
-      case MergeStrategy.SKIP:
-        if (existing) {
-          Logger.info('Skipping repository with existing MCP configuration');
-          return existing;
-        }
-        return newConfig;
-
-      case MergeStrategy.MERGE:
-        if (!existing) {
-          return newConfig;
-        }
-        // Merge new servers with existing ones, keeping existing ones intact
-        const merged: MCPConfig = { 
-          mcpServers: { ...existing.mcpServers }
-        };
-        for (const [serverName, serverConfig] of Object.entries(newConfig.mcpServers)) {
-          if (!merged.mcpServers[serverName]) {
-            merged.mcpServers[serverName] = serverConfig;
-          }
-        }
-        return merged;
-
-      case MergeStrategy.MERGE_OVERWRITE:
-        if (!existing) {
-          return newConfig;
-        }
-        // Merge new servers with existing ones, overwriting existing servers with same names
-        return { 
-          mcpServers: { ...existing.mcpServers, ...newConfig.mcpServers }
-        };
-
-      case MergeStrategy.FORCE_OVERWRITE:
-        return newConfig;
-
-      default:
-        throw new Error(`Unknown merge strategy: ${strategy}`);
-    }
+  mergeMCPConfig(
+    existing: MCPConfig | null,
+    newConfig: MCPConfig,
+    strategy: MergeStrategy,
+    options: MergeOptions = {}
+  ): MCPConfig {
+    return ConfigMerger.merge(existing, newConfig, strategy, options);
   }
 
-  async configureRepository(repositoryName: string, newConfig: MCPConfig, strategy: MergeStrategy): Promise<{
+  async configureRepository(
+    repositoryName: string,
+    newConfig: MCPConfig,
+    strategy: MergeStrategy,
+    mergeOptions: MergeOptions = {}
+  ): Promise<{
     before: MCPConfig | null;
     after: MCPConfig;
     strategy: string;
@@ -532,7 +507,7 @@ export class BrowserAutomator {
     const existingConfig = await this.readMCPConfig(repositoryName);
     
     // Apply merge strategy
-    const finalConfig = this.mergeMCPConfig(existingConfig, newConfig, strategy);
+    const finalConfig = this.mergeMCPConfig(existingConfig, newConfig, strategy, mergeOptions);
     
     // Skip update if configuration would be identical
     if (existingConfig && JSON.stringify(existingConfig) === JSON.stringify(finalConfig)) {
@@ -553,4 +528,12 @@ export class BrowserAutomator {
       strategy
     };
   }
+
+  /**
+   * The MCP configuration editors, blacked out in debug screenshots since the
+   * configuration may hold credentials.
+   */
+  private configEditors(page: Page) {
+    return [page.locator('.cm-content, .CodeMirror, textarea')];
+  }
 }
\ No newline at end of file
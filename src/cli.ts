@@ -2,11 +2,25 @@
 
 import { Command } from 'commander';
 import { ConfigurationEngine } from './engine';
-import { ConfigurationOptions } from './types';
+import { ConfigParser } from './config/parser';
+import { OptionResolver } from './config/options';
+import {
+  ApplyOptions,
+  ConfigFileKind,
+  ConfigurationOptions,
+  ExportOptions,
+  RollbackOptions,
+  RunSettings,
+  ValidationIssue
+} from './types';
 import { Logger } from './utils/logger';
+import { Redactor } from './utils/redactor';
 import chalk from 'chalk';
 import * as fs from 'fs-extra';
 
+// Nothing printed may reveal a secret, whichever module prints it
+Redactor.redactConsole();
+
 const program = new Command();
 
 program
@@ -14,95 +28,440 @@ program
   .description('Bulk configuration tool for GitHub Copilot agent MCP settings')
   .version('1.0.0');
 
-program
-  .command('configure')
-  .description('Configure GitHub Copilot agents across repositories')
-  .requiredOption('--repos <file>', 'Repository configuration file (repos.yaml)')
-  .requiredOption('--mcp-config <file>', 'MCP configuration file (.json or .yaml)')
-  .option('--secrets <file>', 'Optional secrets configuration file (secrets.yaml)')
+/**
+ * Options shared by every command that computes MCP configuration changes.
+ */
+function addConfigurationOptions(command: Command): Command {
+  return command
+    .requiredOption('--repos <file>', 'Repository configuration file (repos.yaml)')
+    .option('--mcp-config <files...>', 'MCP configuration files, overlaid left to right (optional when repos.yaml defines profiles)')
+    .option('--secrets <file>', 'Optional secrets configuration file (secrets.yaml)')
+    // Flags without defaults here fall back to the options block of repos.yaml
+    .option('--skip-existing', 'Skip repositories with existing MCP configuration')
+    .option('--merge', 'Merge new MCP servers with existing ones')
+    .option('--overwrite-existing', 'When merging, overwrite existing servers with same names')
+    .option('--force-overwrite', 'Replace entire MCP configuration')
+    .option('--deep-merge', 'Merge servers present in both configs field by field')
+    .option('--prefer <side>', 'With --deep-merge, which side wins conflicting values (existing or new)')
+    .option('--prune', 'Remove MCP servers that the MCP configuration does not declare')
+    .option('--prune-secrets', 'Delete secrets and variables this tool set that the secrets file no longer defines')
+    .option('--concurrency <number>', 'Number of repositories to process in parallel (default: 3)')
+    .option('--verbose', 'Enable verbose logging')
+    .option('--continue-on-error', 'Keep processing after a repository fails (default)')
+    .option('--no-continue-on-error', 'Stop after the first repository that fails')
+    .option('--strict', 'Fail before changing anything when a secret or template value cannot be resolved')
+    .option('--env-file <files...>', 'Dotenv files read by {{ dotenv.NAME }} (default: .env)')
+    .option('--debug', 'Enable debug mode with visible browser and extended logging', false)
+    .option('--api-only', 'Use only GitHub API (no browser automation fallback)', false)
+    .option('--interactive-auth', 'Enable interactive browser authentication when API fails', false)
+    .option('--state-dir <dir>', 'Directory for run state files', '.copilot-config')
+    .option('--allow-guessed-writes', 'Try every guessed MCP API endpoint for writes when probe-api has not recorded one', false)
+    .option('--cache-ttl <minutes>', 'Minutes to reuse discovered repositories for, 0 to disable (default: 15)')
+    .option('--refresh', 'Discover repositories again instead of using cached results', false);
+}
+
+// The options addConfigurationOptions defines, as commander parses them
+interface ConfigurationFlags {
+  repos: string;
+  mcpConfig?: string[];
+  secrets?: string;
+  skipExisting?: boolean;
+  merge?: boolean;
+  overwriteExisting?: boolean;
+  forceOverwrite?: boolean;
+  deepMerge?: boolean;
+  prefer?: string;
+  prune?: boolean;
+  pruneSecrets?: boolean;
+  concurrency?: string;
+  verbose?: boolean;
+  continueOnError?: boolean;
+  strict?: boolean;
+  envFile?: string[];
+  debug: boolean;
+  apiOnly: boolean;
+  interactiveAuth: boolean;
+  stateDir: string;
+  allowGuessedWrites: boolean;
+  cacheTtl?: string;
+  refresh: boolean;
+  // Only defined by configure
+  dryRun?: boolean;
+  resume?: boolean;
+  retryFailed?: boolean;
+}
+
+/**
+ * Validate parsed CLI options, resolve them against the options block of
+ * repos.yaml and convert them to ConfigurationOptions, exiting with an error
+ * message when they are invalid.
+ */
+async function buildConfigurationOptions(options: ConfigurationFlags, command: Command): Promise<ConfigurationOptions> {
+  // Validate required files exist
+  if (!await fs.pathExists(options.repos)) {
+    console.error(chalk.red(`❌ Repository config file not found: ${options.repos}`));
+    process.exit(1);
+  }
+
+  for (const mcpConfigFile of options.mcpConfig || []) {
+    if (!await fs.pathExists(mcpConfigFile)) {
+      console.error(chalk.red(`❌ MCP config file not found: ${mcpConfigFile}`));
+      process.exit(1);
+    }
+  }
+
+  if (options.secrets && !await fs.pathExists(options.secrets)) {
+    console.error(chalk.red(`❌ Secrets config file not found: ${options.secrets}`));
+    process.exit(1);
+  }
+
+  // Validate mutually exclusive options
+  if (options.apiOnly && options.interactiveAuth) {
+    console.error(chalk.red('❌ --api-only cannot be used with --interactive-auth'));
+    process.exit(1);
+  }
+
+  if (options.resume && options.retryFailed) {
+    console.error(chalk.red('❌ --resume cannot be used with --retry-failed'));
+    process.exit(1);
+  }
+
+  if (options.prefer !== undefined && options.prefer !== 'existing' && options.prefer !== 'new') {
+    console.error(chalk.red('❌ --prefer must be "existing" or "new"'));
+    process.exit(1);
+  }
+
+  // Every flag has been checked above or has the type of its setting
+  const cliSettings: Partial<Record<keyof RunSettings, unknown>> = {};
+  const flags: Array<[keyof RunSettings, keyof ConfigurationFlags]> = [
+    ['skipExisting', 'skipExisting'],
+    ['merge', 'merge'],
+    ['mergeOverwrite', 'overwriteExisting'],
+    ['forceOverwrite', 'forceOverwrite'],
+    ['deepMerge', 'deepMerge'],
+    ['mergePrecedence', 'prefer'],
+    ['prune', 'prune'],
+    ['concurrency', 'concurrency'],
+    ['verbose', 'verbose'],
+    ['continueOnError', 'continueOnError'],
+    ['strict', 'strict'],
+    ['pruneSecrets', 'pruneSecrets']
+  ];
+  for (const [key, attribute] of flags) {
+    if (command.getOptionValueSource(attribute) === 'cli') {
+      cliSettings[key] = key === 'concurrency' ? parseConcurrency(String(options.concurrency)) : options[attribute];
+    }
+  }
+
+  let settings: RunSettings;
+  try {
+    const repoConfig = await ConfigParser.parseRepoConfig(options.repos);
+    settings = OptionResolver.resolve(cliSettings as Partial<RunSettings>, repoConfig.options).settings;
+  } catch (error) {
+    console.error(chalk.red(`❌ ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  return {
+    repoConfig: options.repos,
+    mcpConfig: options.mcpConfig,
+    secretsConfig: options.secrets,
+    dryRun: !!options.dryRun,
+    skipExisting: settings.skipExisting,
+    merge: settings.merge,
+    mergeOverwrite: settings.mergeOverwrite,
+    forceOverwrite: settings.forceOverwrite,
+    deepMerge: settings.deepMerge,
+    mergePrecedence: settings.mergePrecedence,
+    prune: settings.prune,
+    concurrency: settings.concurrency,
+    verbose: settings.verbose,
+    continueOnError: settings.continueOnError,
+    strict: settings.strict,
+    pruneSecrets: settings.pruneSecrets,
+    envFiles: options.envFile,
+    debug: options.debug,
+    apiOnly: options.apiOnly,
+    interactiveAuth: options.interactiveAuth,
+    resume: options.resume,
+    retryFailed: options.retryFailed,
+    stateDir: options.stateDir,
+    allowGuessedWrites: options.allowGuessedWrites,
+    cacheTtl: parseCacheTtl(options.cacheTtl),
+    refresh: options.refresh
+  };
+}
+
+/**
+ * Print the issues found in one file and return how many are errors.
+ */
+function displayValidationIssues(file: string, issues: ValidationIssue[]): number {
+  if (issues.length === 0) {
+    return 0;
+  }
+
+  console.log(chalk.white(`${file}:`));
+  for (const issue of issues) {
+    const location = issue.line ? chalk.gray(`${issue.line}:${issue.column} `) : '';
+    const text = `${location}${issue.path}: ${issue.message}`;
+    console.log(issue.severity === 'error' ? chalk.red(`  ✖ ${text}`) : chalk.yellow(`  ⚠ ${text}`));
+  }
+  console.log('');
+  return issues.filter(issue => issue.severity === 'error').length;
+}
+
+function parseConcurrency(value: string): number {
+  const concurrency = parseInt(value, 10);
+  if (isNaN(concurrency) || concurrency < 1) {
+    console.error(chalk.red('❌ Concurrency must be a positive number'));
+    process.exit(1);
+  }
+  return concurrency;
+}
+
+function parseCacheTtl(value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const minutes = Number(value);
+  if (value.trim() === '' || isNaN(minutes) || minutes < 0) {
+    console.error(chalk.red('❌ --cache-ttl must be a number of minutes (0 to disable the cache)'));
+    process.exit(1);
+  }
+  return minutes;
+}
+
+addConfigurationOptions(
+  program
+    .command('configure')
+    .description('Configure GitHub Copilot agents across repositories')
+)
   .option('--dry-run', 'Preview changes without applying them', false)
-  .option('--skip-existing', 'Skip repositories with existing MCP configuration', false)
-  .option('--merge', 'Merge new MCP servers with existing ones', false)
-  .option('--overwrite-existing', 'When merging, overwrite existing servers with same names', false)
-  .option('--force-overwrite', 'Replace entire MCP configuration', false)
+  .option('--resume', 'Resume the last run, skipping repositories that already succeeded', false)
+  .option('--retry-failed', 'Retry only failed repositories from previous run', false)
+  .action(async (options, command) => {
+    try {
+      const configOptions = await buildConfigurationOptions(options, command);
+
+      // Show banner
+      console.log(chalk.cyan('🚀 GitHub Copilot Agent Bulk Configurator\n'));
+
+      const engine = new ConfigurationEngine();
+      const summary = await engine.configure(configOptions);
+
+      if (summary.failed > 0) {
+        process.exit(1);
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`❌ Configuration failed: ${error}`));
+      Logger.error('CLI command failed', { error: (error as Error).toString() });
+      process.exit(1);
+    }
+  });
+
+addConfigurationOptions(
+  program
+    .command('plan')
+    .description('Compute the configuration changes for every repository and save them to a plan file')
+)
+  .requiredOption('--out <file>', 'Plan file to write (plan.json)')
+  .action(async (options, command) => {
+    try {
+      const configOptions = await buildConfigurationOptions(options, command);
+
+      console.log(chalk.cyan('🚀 GitHub Copilot Agent Bulk Configurator\n'));
+
+      const engine = new ConfigurationEngine();
+      await engine.plan(configOptions, options.out);
+
+    } catch (error) {
+      console.error(chalk.red(`❌ Planning failed: ${error}`));
+      Logger.error('CLI command failed', { error: (error as Error).toString() });
+      process.exit(1);
+    }
+  });
+
+addConfigurationOptions(
+  program
+    .command('audit')
+    .description('Report how live MCP configurations, secrets and variables differ from the desired configuration')
+)
+  .option('--report <file>', 'Write the audit findings as JSON to this file')
+  .action(async (options, command) => {
+    try {
+      const configOptions = await buildConfigurationOptions(options, command);
+
+      console.log(chalk.cyan('🚀 GitHub Copilot Agent Bulk Configurator\n'));
+
+      const engine = new ConfigurationEngine();
+      const report = await engine.audit(configOptions);
+
+      if (options.report) {
+        await fs.writeJson(options.report, Redactor.redactValue(report), { spaces: 2 });
+        console.log(`Audit report written to ${options.report}`);
+      }
+
+      // Non-zero exit lets scheduled CI jobs fail on drift
+      if (report.repositories.some(result => result.error || result.findings.length > 0)) {
+        process.exit(1);
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`❌ Audit failed: ${error}`));
+      Logger.error('CLI command failed', { error: (error as Error).toString() });
+      process.exit(1);
+    }
+  });
+
+program
+  .command('apply <planFile>')
+  .description('Apply a plan file created by the plan command')
   .option('--concurrency <number>', 'Number of repositories to process in parallel', '3')
   .option('--verbose', 'Enable verbose logging', false)
   .option('--debug', 'Enable debug mode with visible browser and extended logging', false)
   .option('--api-only', 'Use only GitHub API (no browser automation fallback)', false)
   .option('--interactive-auth', 'Enable interactive browser authentication when API fails', false)
-  .option('--resume', 'Resume from last failed repository', false)
-  .option('--retry-failed', 'Retry only failed repositories from previous run', false)
-  .action(async (options) => {
+  .option('--state-dir <dir>', 'Directory for run state files', '.copilot-config')
+  .option('--allow-guessed-writes', 'Try every guessed MCP API endpoint for writes when probe-api has not recorded one', false)
+  .option('--strict', 'Fail before changing anything when a secret value cannot be resolved', false)
+  .option('--env-file <files...>', 'Dotenv files read by {{ dotenv.NAME }} (default: .env)')
+  .action(async (planFile, options) => {
     try {
-      // Validate required files exist
-      if (!await fs.pathExists(options.repos)) {
-        console.error(chalk.red(`❌ Repository config file not found: ${options.repos}`));
+      if (!await fs.pathExists(planFile)) {
+        console.error(chalk.red(`❌ Plan file not found: ${planFile}`));
         process.exit(1);
       }
 
-      if (!await fs.pathExists(options.mcpConfig)) {
-        console.error(chalk.red(`❌ MCP config file not found: ${options.mcpConfig}`));
+      if (options.apiOnly && options.interactiveAuth) {
+        console.error(chalk.red('❌ --api-only cannot be used with --interactive-auth'));
         process.exit(1);
       }
 
-      if (options.secrets && !await fs.pathExists(options.secrets)) {
-        console.error(chalk.red(`❌ Secrets config file not found: ${options.secrets}`));
+      const applyOptions: ApplyOptions = {
+        planFile,
+        concurrency: parseConcurrency(options.concurrency),
+        verbose: options.verbose,
+        debug: options.debug,
+        apiOnly: options.apiOnly,
+        interactiveAuth: options.interactiveAuth,
+        stateDir: options.stateDir,
+        allowGuessedWrites: options.allowGuessedWrites,
+        strict: options.strict,
+        envFiles: options.envFile
+      };
+
+      console.log(chalk.cyan('🚀 GitHub Copilot Agent Bulk Configurator\n'));
+
+      const engine = new ConfigurationEngine();
+      const summary = await engine.apply(applyOptions);
+
+      if (summary.failed > 0) {
         process.exit(1);
       }
 
-      // Validate mutually exclusive options
-      if (options.forceOverwrite && (options.merge || options.skipExisting)) {
-        console.error(chalk.red('❌ --force-overwrite cannot be used with --merge or --skip-existing'));
+    } catch (error) {
+      console.error(chalk.red(`❌ Apply failed: ${error}`));
+      Logger.error('CLI command failed', { error: (error as Error).toString() });
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rollback <runId>')
+  .description('Restore the MCP configuration each repository had before a previous run, skipping repositories changed since then unless --force is given')
+  .option('--dry-run', 'Preview the restore without applying it', false)
+  .option('--force', 'Also roll back repositories whose configuration changed after the run, discarding those changes', false)
+  .option('--concurrency <number>', 'Number of repositories to process in parallel', '3')
+  .option('--verbose', 'Enable verbose logging', false)
+  .option('--debug', 'Enable debug mode with visible browser and extended logging', false)
+  .option('--api-only', 'Use only GitHub API (no browser automation fallback)', false)
+  .option('--interactive-auth', 'Enable interactive browser authentication when API fails', false)
+  .option('--state-dir <dir>', 'Directory for run state files', '.copilot-config')
+  .option('--allow-guessed-writes', 'Try every guessed MCP API endpoint for writes when probe-api has not recorded one', false)
+  .action(async (runId, options) => {
+    try {
+      if (options.apiOnly && options.interactiveAuth) {
+        console.error(chalk.red('❌ --api-only cannot be used with --interactive-auth'));
         process.exit(1);
       }
 
-      if (options.overwriteExisting && !options.merge) {
-        console.error(chalk.red('❌ --overwrite-existing requires --merge'));
+      const rollbackOptions: RollbackOptions = {
+        runId,
+        dryRun: options.dryRun,
+        force: options.force,
+        concurrency: parseConcurrency(options.concurrency),
+        verbose: options.verbose,
+        debug: options.debug,
+        apiOnly: options.apiOnly,
+        interactiveAuth: options.interactiveAuth,
+        stateDir: options.stateDir,
+        allowGuessedWrites: options.allowGuessedWrites
+      };
+
+      console.log(chalk.cyan('🚀 GitHub Copilot Agent Bulk Configurator\n'));
+
+      const engine = new ConfigurationEngine();
+      const summary = await engine.rollback(rollbackOptions);
+
+      if (summary.failed > 0) {
         process.exit(1);
       }
 
-      if (options.apiOnly && options.interactiveAuth) {
-        console.error(chalk.red('❌ --api-only cannot be used with --interactive-auth'));
+    } catch (error) {
+      console.error(chalk.red(`❌ Rollback failed: ${error}`));
+      Logger.error('CLI command failed', { error: (error as Error).toString() });
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export')
+  .description('Back up the current MCP configuration of every repository')
+  .requiredOption('--repos <file>', 'Repository configuration file (repos.yaml)')
+  .requiredOption('--out <dir>', 'Directory to write the exported configurations to')
+  .option('--verbose', 'Enable verbose logging', false)
+  .option('--debug', 'Enable debug mode with visible browser and extended logging', false)
+  .option('--api-only', 'Use only GitHub API (no browser automation fallback)', false)
+  .option('--interactive-auth', 'Enable interactive browser authentication when API fails', false)
+  .option('--state-dir <dir>', 'Directory for run state files', '.copilot-config')
+  .option('--cache-ttl <minutes>', 'Minutes to reuse discovered repositories for, 0 to disable (default: 15)')
+  .option('--refresh', 'Discover repositories again instead of using cached results', false)
+  .action(async (options) => {
+    try {
+      if (!await fs.pathExists(options.repos)) {
+        console.error(chalk.red(`❌ Repository config file not found: ${options.repos}`));
         process.exit(1);
       }
 
-      // Parse concurrency
-      const concurrency = parseInt(options.concurrency, 10);
-      if (isNaN(concurrency) || concurrency < 1) {
-        console.error(chalk.red('❌ Concurrency must be a positive number'));
+      if (options.apiOnly && options.interactiveAuth) {
+        console.error(chalk.red('❌ --api-only cannot be used with --interactive-auth'));
         process.exit(1);
       }
 
-      // Show banner
-      console.log(chalk.cyan('🚀 GitHub Copilot Agent Bulk Configurator\n'));
-
-      const configOptions: ConfigurationOptions = {
+      const exportOptions: ExportOptions = {
         repoConfig: options.repos,
-        mcpConfig: options.mcpConfig,
-        secretsConfig: options.secrets,
-        dryRun: options.dryRun,
-        skipExisting: options.skipExisting,
-        merge: options.merge,
-        mergeOverwrite: options.overwriteExisting,
-        forceOverwrite: options.forceOverwrite,
-        concurrency,
+        outDir: options.out,
         verbose: options.verbose,
         debug: options.debug,
         apiOnly: options.apiOnly,
         interactiveAuth: options.interactiveAuth,
-        resume: options.resume,
-        retryFailed: options.retryFailed
+        stateDir: options.stateDir,
+        cacheTtl: parseCacheTtl(options.cacheTtl),
+        refresh: options.refresh
       };
 
+      console.log(chalk.cyan('🚀 GitHub Copilot Agent Bulk Configurator\n'));
+
       const engine = new ConfigurationEngine();
-      const summary = await engine.configure(configOptions);
+      const index = await engine.export(exportOptions);
 
-      if (summary.failed > 0) {
+      if (index.repositories.some(entry => entry.error)) {
         process.exit(1);
       }
 
     } catch (error) {
-      console.error(chalk.red(`❌ Configuration failed: ${error}`));
+      console.error(chalk.red(`❌ Export failed: ${error}`));
       Logger.error('CLI command failed', { error: (error as Error).toString() });
       process.exit(1);
     }
@@ -112,34 +471,119 @@ program
   .command('validate')
   .description('Validate configuration files without applying changes')
   .requiredOption('--repos <file>', 'Repository configuration file (repos.yaml)')
-  .requiredOption('--mcp-config <file>', 'MCP configuration file (.json or .yaml)')
+  .option('--mcp-config <files...>', 'MCP configuration files, overlaid left to right (optional when repos.yaml defines profiles)')
   .option('--secrets <file>', 'Optional secrets configuration file (secrets.yaml)')
+  .option('--fix', 'Replace literal credentials in MCP config files with secret references', false)
   .action(async (options) => {
     try {
-      const { ConfigParser } = await import('./config/parser');
+      const { ConfigParser, DEFAULT_ENVIRONMENT } = await import('./config/parser');
+      const { ProfileResolver } = await import('./config/profiles');
+      const { SecretLinter } = await import('./config/lint');
       
       console.log(chalk.cyan('🔍 Validating configuration files...\n'));
 
+      // Check every file against its schema first so that all problems are reported at once
+      const files: Array<[ConfigFileKind, string]> = [
+        ['repos', options.repos],
+        ...(options.mcpConfig || []).map((file: string, index: number): [ConfigFileKind, string] =>
+          [index === 0 ? 'mcp-config' : 'mcp-overlay', file]),
+        ...(options.secrets ? [['secrets', options.secrets] as [ConfigFileKind, string]] : [])
+      ];
+      let errorCount = 0;
+      for (const [kind, file] of files) {
+        const issues = await ConfigParser.validateFile(kind, file);
+        errorCount += displayValidationIssues(file, issues);
+      }
+      if (errorCount > 0) {
+        console.error(chalk.red(`❌ Validation failed with ${errorCount} error${errorCount === 1 ? '' : 's'}`));
+        process.exit(1);
+      }
+
       // Validate repository config
       console.log('Validating repository configuration...');
       const repoConfig = await ConfigParser.parseRepoConfig(options.repos);
+      const resolved = OptionResolver.resolve({}, repoConfig.options);
       console.log(chalk.green('✅ Repository configuration is valid'));
+      console.log('   Effective settings (command line flags override these):');
+      for (const key of OptionResolver.keys) {
+        const source = resolved.sources[key] === 'default' ? 'default' : OptionResolver.describe(resolved, key);
+        console.log(`     ${key}: ${resolved.settings[key]} ${chalk.gray(`(${source})`)}`);
+      }
 
       // Validate MCP config
-      console.log('Validating MCP configuration...');
-      const mcpConfig = await ConfigParser.parseMCPConfig(options.mcpConfig);
-      console.log(chalk.green('✅ MCP configuration is valid'));
-      console.log(`   Found ${Object.keys(mcpConfig).length} MCP servers`);
+      let mcpConfig;
+      if (options.mcpConfig) {
+        console.log('Validating MCP configuration...');
+        mcpConfig = await ConfigParser.parseMCPConfigs(options.mcpConfig);
+        console.log(chalk.green('✅ MCP configuration is valid'));
+        console.log(`   Found ${Object.keys(mcpConfig.mcpServers).length} MCP servers`);
+      }
+
+      // Validate profiles, including the config files they reference
+      const profiles = await ProfileResolver.load(repoConfig, options.repos, mcpConfig);
+      if (profiles.hasProfiles) {
+        console.log(chalk.green('✅ MCP profiles are valid'));
+        console.log(`   Found ${Object.keys(repoConfig.profiles || {}).length} profiles and ${(repoConfig.profile_assignments || []).length} assignments`);
+      } else if (!mcpConfig) {
+        throw new Error('No MCP configuration given: pass --mcp-config or define profiles in the repository config');
+      }
 
       // Validate secrets config if provided
+      let secretsConfig;
       if (options.secrets) {
         console.log('Validating secrets configuration...');
-        const secretsConfig = await ConfigParser.parseSecretsConfig(options.secrets);
+        secretsConfig = await ConfigParser.parseSecretsConfig(options.secrets);
         console.log(chalk.green('✅ Secrets configuration is valid'));
         
         const secretCount = secretsConfig.secrets ? Object.keys(secretsConfig.secrets).length : 0;
         const variableCount = secretsConfig.variables ? Object.keys(secretsConfig.variables).length : 0;
         console.log(`   Found ${secretCount} secrets and ${variableCount} variables`);
+        if (secretsConfig.environment) {
+          const environment = secretsConfig.environment;
+          console.log(`   Found ${Object.keys(environment.secrets || {}).length} secrets and ${Object.keys(environment.variables || {}).length} variables for environment ${environment.name || DEFAULT_ENVIRONMENT}`);
+        }
+      }
+
+      // Lint secret references and literal credentials; these are warnings only
+      if (mcpConfig) {
+        console.log('Checking secret references...\n');
+        const references = SecretLinter.checkReferences(mcpConfig, secretsConfig);
+        // With a single MCP config file, reference and credential issues are listed together
+        const issuesByFile = new Map<string, ValidationIssue[]>([[options.mcpConfig.join(', '), references.mcpConfig]]);
+
+        const fixedNames = new Set<string>();
+        let fixable = 0;
+        // Credentials in the files they extend are reported and fixed too
+        for (const { file, layer } of await ConfigParser.mcpConfigFiles(options.mcpConfig)) {
+          let findings = SecretLinter.findCredentials(layer);
+          if (options.fix) {
+            const names = await SecretLinter.fixCredentials(file, findings);
+            if (names.length > 0) {
+              names.forEach(name => fixedNames.add(name));
+              console.log(chalk.green(`🔧 ${file}: replaced literal credentials with ${names.map(name => `$${name}`).join(', ')}\n`));
+            }
+            findings = findings.filter(finding => !finding.secretName);
+          }
+          fixable += findings.filter(finding => finding.secretName).length;
+
+          issuesByFile.set(file, [...issuesByFile.get(file) || [], ...findings.map(finding => SecretLinter.describe(finding))]);
+        }
+        if (options.secrets) {
+          issuesByFile.set(options.secrets, references.secrets);
+        }
+        issuesByFile.forEach((issues, file) => displayValidationIssues(file, issues));
+
+        if (fixedNames.size > 0) {
+          console.log(chalk.yellow('Add the replaced credentials to the environment secrets in secrets.yaml, for example:'));
+          console.log('  environment:\n    secrets:');
+          fixedNames.forEach(name => console.log(`      ${name}: "{{ env.${name} }}"`));
+        }
+        if (fixable > 0) {
+          console.log(chalk.yellow(`Run validate with --fix to replace ${fixable} literal credential${fixable === 1 ? '' : 's'} with secret references.`));
+        }
+        if ([...issuesByFile.values()].every(issues => issues.length === 0)) {
+          console.log(chalk.green('✅ Secret references are consistent'));
+        }
       }
 
       console.log(chalk.green('\n✅ All configuration files are valid!'));
@@ -150,19 +594,63 @@ program
     }
   });
 
+program
+  .command('probe-api <repo>')
+  .description('Find which GitHub API endpoint serves MCP configuration, using read-only requests')
+  .option('--state-dir <dir>', 'Directory for run state files', '.copilot-config')
+  .action(async (repo, options) => {
+    try {
+      const { GitHubAPIAutomator } = await import('./github/api');
+      const { CapabilitiesFile } = await import('./github/capabilities');
+
+      if (!/^[^/\s]+\/[^/\s]+$/.test(repo)) {
+        console.error(chalk.red(`❌ Expected a repository as owner/name, got "${repo}"`));
+        process.exit(1);
+      }
+
+      console.log(chalk.cyan(`🔎 Probing MCP configuration API endpoints on ${repo} (GET requests only)...\n`));
+
+      const automator = new GitHubAPIAutomator();
+      await automator.initialize({ ignoreCapabilities: true });
+      const capabilities = await automator.probe(repo);
+
+      for (const attempt of capabilities.attempts.filter(attempt => attempt.status !== 404)) {
+        const outcome = attempt.status ? `${attempt.status}` : 'failed';
+        console.log(chalk.gray(`  ${outcome} GET ${attempt.path} (${attempt.accept})${attempt.note ? `: ${attempt.note}` : ''}`));
+      }
+
+      const capabilitiesPath = CapabilitiesFile.pathFor(options.stateDir);
+      await CapabilitiesFile.write(capabilitiesPath, capabilities);
+
+      if (capabilities.read && capabilities.write) {
+        console.log(chalk.green(`\n✅ ${capabilities.read.path} returns the MCP configuration as "${capabilities.read.shape}"`));
+        console.log(`Writes will use ${capabilities.write.method} ${capabilities.write.path} with the same shape.`);
+        console.log(chalk.gray(`Recorded in ${capabilitiesPath}; edit "write.method" there if the endpoint expects PATCH or POST.`));
+      } else {
+        console.log(chalk.yellow(`\n⚠️  None of the ${capabilities.attempts.length} endpoint and Accept header combinations returned an MCP configuration.`));
+        console.log(`Recorded in ${capabilitiesPath}; runs will use browser automation instead of guessing.`);
+        process.exit(1);
+      }
+
+    } catch (error) {
+      console.error(chalk.red(`❌ API probe failed: ${error}`));
+      process.exit(1);
+    }
+  });
+
 program
   .command('check-auth')
   .description('Check GitHub CLI authentication status')
   .action(async () => {
     try {
-      const { GitHubCLI } = await import('./github/cli');
+      const { GitHubClient } = await import('./github/client');
       
       console.log(chalk.cyan('🔑 Checking GitHub authentication...\n'));
       
       // This will throw an error if not authenticated
-      await GitHubCLI.listUserRepositories();
+      const login = await (await GitHubClient.create()).getViewerLogin();
       
-      console.log(chalk.green('✅ GitHub CLI is properly authenticated'));
+      console.log(chalk.green(`✅ Authenticated to GitHub as ${login}`));
       console.log('You can proceed with configuration operations.');
       
     } catch (error) {
@@ -177,24 +665,29 @@ program
   .command('list-repos')
   .description('List repositories that would be configured')
   .requiredOption('--repos <file>', 'Repository configuration file (repos.yaml)')
+  .option('--state-dir <dir>', 'Directory for run state files', '.copilot-config')
+  .option('--cache-ttl <minutes>', 'Minutes to reuse discovered repositories for, 0 to disable (default: 15)')
+  .option('--refresh', 'Discover repositories again instead of using cached results', false)
   .action(async (options) => {
     try {
       const { ConfigParser } = await import('./config/parser');
-      const { GitHubCLI } = await import('./github/cli');
+      const { RepositoryDiscovery } = await import('./github/discovery');
+      const { ProfileResolver } = await import('./config/profiles');
       
       console.log(chalk.cyan('📋 Discovering repositories...\n'));
 
       const repoConfig = await ConfigParser.parseRepoConfig(options.repos);
+      const profiles = await ProfileResolver.load(repoConfig, options.repos);
       
-      let repositories;
-      if (repoConfig.repositories) {
-        repositories = await GitHubCLI.getRepositoriesFromList(repoConfig.repositories);
-      } else if (repoConfig.all_accessible_repos) {
-        repositories = await GitHubCLI.listUserRepositories(repoConfig.filters);
-      } else {
-        throw new Error('Invalid repository configuration');
-      }
+      const { repositories, excluded, cachedAt } = await RepositoryDiscovery.discover(repoConfig, {
+        stateDir: options.stateDir,
+        cacheTtl: parseCacheTtl(options.cacheTtl),
+        refresh: options.refresh
+      });
 
+      if (cachedAt) {
+        console.log(chalk.gray(`Using repositories discovered at ${cachedAt} (use --refresh to fetch them again)\n`));
+      }
       console.log(`Found ${repositories.length} repositories:\n`);
       
       repositories.forEach(repo => {
@@ -202,16 +695,24 @@ program
         if (repo.topics.length > 0) {
           console.log(`   Topics: ${repo.topics.join(', ')}`);
         }
+        if (repo.primaryLanguage) {
+          console.log(`   Language: ${repo.primaryLanguage}`);
+        }
         console.log(`   Admin access: ${repo.hasAdminAccess ? '✅' : '❌'}`);
+        if (profiles.hasProfiles) {
+          const names = profiles.profilesFor(repo);
+          console.log(`   Profiles: ${names.length > 0 ? names.join(', ') : 'none'}`);
+        }
         console.log('');
       });
 
-      const adminRepos = repositories.filter(r => r.hasAdminAccess);
-      console.log(chalk.green(`✅ ${adminRepos.length} repositories have admin access and can be configured`));
+      console.log(chalk.green(`✅ ${repositories.length} repositories have admin access and can be configured`));
       
-      if (adminRepos.length < repositories.length) {
-        const noAccessRepos = repositories.filter(r => !r.hasAdminAccess);
-        console.log(chalk.yellow(`⚠️  ${noAccessRepos.length} repositories will be skipped (no admin access)`));
+      if (excluded.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  ${excluded.length} repositories will be skipped:`));
+        excluded.forEach(({ repository, reason }) => {
+          console.log(chalk.yellow(`   • ${repository}: ${reason}`));
+        });
       }
 
     } catch (error) {
@@ -0,0 +1,221 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { applyEdits, modify } from 'jsonc-parser';
+import { parseDocument } from 'yaml';
+import { MCPConfig, MCPConfigLayer, SecretsConfig, ValidationIssue } from '../types';
+import { SchemaValidator } from './schema';
+import { TOKEN_PATTERNS } from '../utils/redactor';
+
+// Copilot only passes secrets and variables with this prefix to MCP servers
+export const COPILOT_SECRET_PREFIX = 'COPILOT_MCP_';
+
+// $NAME or ${NAME} inside an env or header value
+const REFERENCE = /\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?/g;
+// An env value that is just a secret name, e.g. COPILOT_MCP_API_KEY; only
+// taken as a reference when it is a known secret name, not a plain constant
+const BARE_REFERENCE = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+$/;
+
+export interface CredentialFinding {
+  // Path of the string holding the credential, e.g. mcpServers.github.headers.Authorization
+  segments: Array<string | number>;
+  value: string;
+  literal: string;
+  kind: string;
+  // Secret to reference instead, when the value is an env or header value
+  secretName?: string;
+}
+
+export interface SecretLintResult {
+  // Issues with the merged MCP configuration
+  mcpConfig: ValidationIssue[];
+  // Issues with secrets.yaml
+  secrets: ValidationIssue[];
+}
+
+export class SecretLinter {
+  /**
+   * Check the secrets MCP servers reference in their env and headers against
+   * the ones secrets.yaml provisions, and the names against Copilot's prefix.
+   * Without a secrets file only the prefix is checked. An env value that is
+   * just a name counts as a reference when secrets.yaml defines it or it has
+   * Copilot's prefix.
+   */
+  static checkReferences(config: MCPConfig, secretsConfig?: SecretsConfig): SecretLintResult {
+    const result: SecretLintResult = { mcpConfig: [], secrets: [] };
+    const defined = new Set(this.definedNames(secretsConfig));
+    const referenced = new Set<string>();
+
+    for (const [serverName, server] of Object.entries(config.mcpServers)) {
+      for (const field of ['env', 'headers'] as const) {
+        for (const [key, value] of Object.entries(server[field] || {})) {
+          const issuePath = SchemaValidator.formatPath(['mcpServers', serverName, field, key]);
+          for (const name of this.referencesIn(value, field === 'env', defined)) {
+            referenced.add(name);
+            if (secretsConfig && !defined.has(name)) {
+              result.mcpConfig.push({ severity: 'warning', path: issuePath, message: `references ${name}, which the secrets file does not define` });
+            }
+            if (!name.startsWith(COPILOT_SECRET_PREFIX)) {
+              result.mcpConfig.push({ severity: 'warning', path: issuePath, message: `references ${name}, but Copilot only passes ${COPILOT_SECRET_PREFIX}* secrets to MCP servers` });
+            }
+          }
+        }
+      }
+    }
+
+    if (!secretsConfig) {
+      return result;
+    }
+
+    for (const [segments, values] of [[['secrets'], secretsConfig.secrets], [['environment', 'secrets'], secretsConfig.environment?.secrets]] as const) {
+      for (const name of Object.keys(values || {}).filter(name => !referenced.has(name))) {
+        result.secrets.push({ severity: 'warning', path: SchemaValidator.formatPath([...segments, name]), message: 'is not referenced by any MCP server' });
+      }
+    }
+
+    // Environment values are only there for Copilot; repository-level ones only matter when an MCP server uses them
+    const scopes = [[['environment'], secretsConfig.environment, true], [[], secretsConfig, false]] as const;
+    for (const [segments, values, everyName] of scopes) {
+      for (const kind of ['secrets', 'variables'] as const) {
+        const names = Object.keys(values?.[kind] || {}).filter(name => everyName || referenced.has(name));
+        for (const name of names.filter(name => !name.startsWith(COPILOT_SECRET_PREFIX))) {
+          result.secrets.push({
+            severity: 'warning',
+            path: SchemaValidator.formatPath([...segments, kind, name]),
+            message: `does not start with ${COPILOT_SECRET_PREFIX}, so Copilot will not pass it to MCP servers`
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Literal credentials in an MCP config file's servers, before templates are
+   * resolved. Each env or header credential is given a secret name to move it
+   * to; credentials elsewhere can only be reported.
+   */
+  static findCredentials(config: MCPConfigLayer): CredentialFinding[] {
+    const findings: CredentialFinding[] = [];
+    const secretNames = new Map<string, string>();
+    const usedNames = new Set<string>();
+
+    const scan = (segments: Array<string | number>, value: unknown, secretKey?: string) => {
+      if (typeof value !== 'string') {
+        return;
+      }
+      const found: CredentialFinding[] = [];
+      for (const [kind, pattern] of TOKEN_PATTERNS) {
+        for (const match of value.matchAll(pattern)) {
+          const literal = match[1] || match[0];
+          if (found.some(finding => finding.literal.includes(literal) || literal.includes(finding.literal))) {
+            continue;
+          }
+          found.push({ segments, value, literal, kind, secretName: secretKey && this.nameFor(literal, secretKey, secretNames, usedNames) });
+        }
+      }
+      findings.push(...found);
+    };
+
+    for (const [serverName, server] of Object.entries(config.mcpServers || {})) {
+      if (!server) {
+        continue;
+      }
+      const serverPath = ['mcpServers', serverName];
+      scan([...serverPath, 'url'], server.url);
+      scan([...serverPath, 'command'], server.command);
+      (server.args || []).forEach((arg, index) => scan([...serverPath, 'args', index], arg));
+      for (const [key, value] of Object.entries(server.env || {})) {
+        scan([...serverPath, 'env', key], value, key);
+      }
+      for (const [key, value] of Object.entries(server.headers || {})) {
+        scan([...serverPath, 'headers', key], value, `${serverName}_${/^(authorization|x-api-key)$/i.test(key) ? 'token' : key}`);
+      }
+    }
+
+    return findings;
+  }
+
+  static describe(finding: CredentialFinding): ValidationIssue {
+    return {
+      severity: 'warning',
+      path: SchemaValidator.formatPath(finding.segments.map(String)),
+      message: finding.secretName
+        ? `contains a literal ${finding.kind}; reference a secret such as $${finding.secretName} instead`
+        : `contains a literal ${finding.kind}; pass it through env or headers as a secret reference instead`
+    };
+  }
+
+  /**
+   * Replace literal credentials with references to the secrets named in the
+   * findings, keeping the file's formatting and comments. Returns the secret
+   * names now referenced.
+   */
+  static async fixCredentials(filePath: string, findings: CredentialFinding[]): Promise<string[]> {
+    const fixable = findings.filter(finding => finding.secretName);
+    if (fixable.length === 0) {
+      return [];
+    }
+
+    // A value may hold several credentials, each replaced in turn
+    const values = new Map<string, { segments: Array<string | number>; value: string }>();
+    for (const finding of fixable) {
+      const key = JSON.stringify(finding.segments);
+      const current = values.get(key)?.value ?? finding.value;
+      values.set(key, { segments: finding.segments, value: current.split(finding.literal).join(`$${finding.secretName}`) });
+    }
+
+    let content = await fs.readFile(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.json' || extension === '.jsonc') {
+      for (const { segments, value } of values.values()) {
+        content = applyEdits(content, modify(content, segments, value, { formattingOptions: { insertSpaces: true, tabSize: 2 } }));
+      }
+    } else {
+      const document = parseDocument(content);
+      for (const { segments, value } of values.values()) {
+        document.setIn(segments, value);
+      }
+      content = document.toString({ flowCollectionPadding: false });
+    }
+    await fs.writeFile(filePath, content);
+
+    return [...new Set(fixable.map(finding => finding.secretName!))];
+  }
+
+  private static referencesIn(value: string, isEnv: boolean, defined: Set<string>): string[] {
+    if (isEnv && BARE_REFERENCE.test(value)) {
+      return defined.has(value) || value.startsWith(COPILOT_SECRET_PREFIX) ? [value] : [];
+    }
+    return [...value.matchAll(REFERENCE)].map(match => match[1]);
+  }
+
+  private static definedNames(secretsConfig?: SecretsConfig): string[] {
+    return [secretsConfig, secretsConfig?.environment].flatMap(values => [
+      ...Object.keys(values?.secrets || {}),
+      ...Object.keys(values?.variables || {})
+    ]);
+  }
+
+  /**
+   * A COPILOT_MCP_ secret name derived from where a credential was found,
+   * reused for the same credential and made unique for different ones.
+   */
+  private static nameFor(literal: string, key: string, secretNames: Map<string, string>, usedNames: Set<string>): string {
+    const existing = secretNames.get(literal);
+    if (existing) {
+      return existing;
+    }
+
+    const base = key.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase();
+    const prefixed = base.startsWith(COPILOT_SECRET_PREFIX) ? base : `${COPILOT_SECRET_PREFIX}${base}`;
+    let name = prefixed;
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${prefixed}_${suffix}`;
+    }
+
+    secretNames.set(literal, name);
+    usedNames.add(name);
+    return name;
+  }
+}
@@ -0,0 +1,166 @@
+import { MCPConfig, MCPServerConfig, MergePrecedence, MergeStrategy } from '../types';
+import { Logger } from '../utils/logger';
+
+export interface MergeOptions {
+  // Which side wins when a scalar value conflicts during a deep merge
+  precedence?: MergePrecedence;
+  // Delete every server that the new config does not declare
+  prune?: boolean;
+}
+
+export class ConfigMerger {
+  /**
+   * Apply the merge strategy, then delete the servers listed in the new
+   * config's "remove" section (and, when pruning, every undeclared server).
+   * SKIP leaves repositories that already have a configuration untouched.
+   */
+  static merge(
+    existing: MCPConfig | null,
+    newConfig: MCPConfig,
+    strategy: MergeStrategy,
+    options: MergeOptions = {}
+  ): MCPConfig {
+    // "remove" is an instruction for this tool, never part of the written config
+    const desired: MCPConfig = { mcpServers: newConfig.mcpServers };
+    const merged = this.applyStrategy(existing, desired, strategy, options);
+
+    if (strategy === MergeStrategy.SKIP && existing) {
+      return merged;
+    }
+
+    return this.applyRemovals(merged, newConfig, options.prune || false);
+  }
+
+  static applyRemovals(config: MCPConfig, newConfig: MCPConfig, prune: boolean): MCPConfig {
+    const removals = new Set(newConfig.remove || []);
+    const declared = new Set(Object.keys(newConfig.mcpServers));
+    const toRemove = Object.keys(config.mcpServers)
+      .filter(name => removals.has(name) || (prune && !declared.has(name)));
+
+    if (toRemove.length === 0) {
+      return config;
+    }
+
+    const servers = { ...config.mcpServers };
+    for (const name of toRemove) {
+      delete servers[name];
+    }
+    Logger.info(`Removing MCP servers: ${toRemove.join(', ')}`);
+    return { mcpServers: servers };
+  }
+
+  private static applyStrategy(
+    existing: MCPConfig | null,
+    newConfig: MCPConfig,
+    strategy: MergeStrategy,
+    options: MergeOptions
+  ): MCPConfig {
+    switch (strategy) {
+      case MergeStrategy.SKIP:
+        if (existing) {
+          Logger.info('Skipping repository with existing MCP configuration');
+          return existing;
+        }
+        return newConfig;
+
+      case MergeStrategy.MERGE: {
+        if (!existing) {
+          return newConfig;
+        }
+        // Merge new servers with existing ones, keeping existing ones intact
+        const merged: MCPConfig = {
+          mcpServers: { ...existing.mcpServers }
+        };
+        for (const [serverName, serverConfig] of Object.entries(newConfig.mcpServers)) {
+          if (!merged.mcpServers[serverName]) {
+            merged.mcpServers[serverName] = serverConfig;
+          }
+        }
+        return merged;
+      }
+
+      case MergeStrategy.MERGE_OVERWRITE:
+        if (!existing) {
+          return newConfig;
+        }
+        // Merge new servers with existing ones, overwriting existing servers with same names
+        return {
+          mcpServers: { ...existing.mcpServers, ...newConfig.mcpServers }
+        };
+
+      case MergeStrategy.DEEP_MERGE: {
+        if (!existing) {
+          return newConfig;
+        }
+        // Merge servers present in both configs field by field
+        const merged: MCPConfig = {
+          mcpServers: { ...existing.mcpServers }
+        };
+        for (const [serverName, serverConfig] of Object.entries(newConfig.mcpServers)) {
+          const existingServer = merged.mcpServers[serverName];
+          merged.mcpServers[serverName] = existingServer
+            ? this.deepMergeServer(existingServer, serverConfig, options.precedence || 'new')
+            : serverConfig;
+        }
+        return merged;
+      }
+
+      case MergeStrategy.FORCE_OVERWRITE:
+        return newConfig;
+
+      default:
+        throw new Error(`Unknown merge strategy: ${strategy}`);
+    }
+  }
+
+  /**
+   * Merge two definitions of the same server: tools are unioned, headers and
+   * env are merged key by key, args are kept unless the new config sets them,
+   * and any other conflicting value is taken from the preferred side.
+   */
+  static deepMergeServer(
+    existing: MCPServerConfig,
+    incoming: MCPServerConfig,
+    precedence: MergePrecedence
+  ): MCPServerConfig {
+    const [preferred, other] = precedence === 'new' ? [incoming, existing] : [existing, incoming];
+
+    // An http server cannot be merged into a local one, so the preferred definition wins outright
+    if (existing.type !== incoming.type) {
+      return preferred;
+    }
+
+    const merged: MCPServerConfig = { ...other, ...preferred };
+
+    merged.tools = [...new Set([...(existing.tools || []), ...(incoming.tools || [])])];
+
+    const headers = this.mergeMaps(other.headers, preferred.headers);
+    if (headers) {
+      merged.headers = headers;
+    }
+
+    const env = this.mergeMaps(other.env, preferred.env);
+    if (env) {
+      merged.env = env;
+    }
+
+    const args = incoming.args ?? existing.args;
+    if (args) {
+      merged.args = args;
+    } else {
+      delete merged.args;
+    }
+
+    return merged;
+  }
+
+  private static mergeMaps(
+    base: Record<string, string> | undefined,
+    override: Record<string, string> | undefined
+  ): Record<string, string> | undefined {
+    if (!base && !override) {
+      return undefined;
+    }
+    return { ...base, ...override };
+  }
+}
@@ -0,0 +1,106 @@
+import { OptionSource, ProcessingOptions, ResolvedSettings, RunSettings } from '../types';
+
+interface SettingDefinition<K extends keyof RunSettings = keyof RunSettings> {
+  key: K;
+  flag: string;
+  fileKey: keyof ProcessingOptions;
+  defaultValue: RunSettings[K];
+  // Merge strategy settings are resolved as a group
+  strategy?: boolean;
+}
+
+const SETTINGS: SettingDefinition[] = [
+  { key: 'skipExisting', flag: '--skip-existing', fileKey: 'skip_existing', defaultValue: false, strategy: true },
+  { key: 'merge', flag: '--merge', fileKey: 'merge', defaultValue: false, strategy: true },
+  { key: 'mergeOverwrite', flag: '--overwrite-existing', fileKey: 'overwrite_existing', defaultValue: false, strategy: true },
+  { key: 'forceOverwrite', flag: '--force-overwrite', fileKey: 'force_overwrite', defaultValue: false, strategy: true },
+  { key: 'deepMerge', flag: '--deep-merge', fileKey: 'deep_merge', defaultValue: false, strategy: true },
+  { key: 'mergePrecedence', flag: '--prefer', fileKey: 'prefer', defaultValue: 'new', strategy: true },
+  { key: 'prune', flag: '--prune', fileKey: 'prune', defaultValue: false },
+  { key: 'concurrency', flag: '--concurrency', fileKey: 'concurrency', defaultValue: 3 },
+  { key: 'verbose', flag: '--verbose', fileKey: 'verbose', defaultValue: false },
+  { key: 'continueOnError', flag: '--continue-on-error', fileKey: 'continue_on_error', defaultValue: true },
+  { key: 'strict', flag: '--strict', fileKey: 'strict', defaultValue: false },
+  { key: 'pruneSecrets', flag: '--prune-secrets', fileKey: 'prune_secrets', defaultValue: false }
+];
+
+export class OptionResolver {
+  /**
+   * Combine the flags given on the command line with the options block of
+   * repos.yaml and the built-in defaults, in that order of precedence. A merge
+   * strategy flag on the command line replaces the file's strategy settings
+   * as a whole instead of being combined with them.
+   */
+  static resolve(cli: Partial<RunSettings>, fileOptions: ProcessingOptions = {}): ResolvedSettings {
+    const cliSetsStrategy = SETTINGS.some(setting => setting.strategy && cli[setting.key] !== undefined);
+    const settings: Record<string, unknown> = {};
+    const sources: Record<string, OptionSource> = {};
+
+    for (const setting of SETTINGS) {
+      const fileValue = fileOptions[setting.fileKey];
+      if (cli[setting.key] !== undefined) {
+        settings[setting.key] = cli[setting.key];
+        sources[setting.key] = 'cli';
+      } else if (fileValue !== undefined && !(setting.strategy && cliSetsStrategy)) {
+        settings[setting.key] = fileValue;
+        sources[setting.key] = 'repos.yaml';
+      } else {
+        settings[setting.key] = setting.defaultValue;
+        sources[setting.key] = 'default';
+      }
+    }
+
+    const resolved = {
+      settings: settings as unknown as RunSettings,
+      sources: sources as ResolvedSettings['sources']
+    };
+    this.checkConflicts(resolved);
+    return resolved;
+  }
+
+  /**
+   * How a setting was given, for error messages and the validate command.
+   */
+  static describe(resolved: ResolvedSettings, key: keyof RunSettings): string {
+    const setting = SETTINGS.find(definition => definition.key === key)!;
+    return resolved.sources[key] === 'repos.yaml' ? `options.${setting.fileKey} in repos.yaml` : setting.flag;
+  }
+
+  static get keys(): Array<keyof RunSettings> {
+    return SETTINGS.map(setting => setting.key);
+  }
+
+  private static checkConflicts(resolved: ResolvedSettings): void {
+    const { settings } = resolved;
+    const name = (key: keyof RunSettings) => this.describe(resolved, key);
+    const given = (key: keyof RunSettings) => resolved.sources[key] !== 'default';
+
+    if (settings.forceOverwrite && (settings.merge || settings.skipExisting)) {
+      throw new Error(`${name('forceOverwrite')} cannot be used with ${settings.merge ? name('merge') : name('skipExisting')}`);
+    }
+
+    if (settings.deepMerge && (settings.merge || settings.skipExisting)) {
+      throw new Error(`${name('deepMerge')} cannot be used with ${settings.merge ? name('merge') : name('skipExisting')}`);
+    }
+
+    if (settings.deepMerge && settings.forceOverwrite) {
+      throw new Error(`${name('deepMerge')} cannot be used with ${name('forceOverwrite')}`);
+    }
+
+    if (given('mergePrecedence') && !settings.deepMerge) {
+      throw new Error(`${name('mergePrecedence')} requires ${name('deepMerge')}`);
+    }
+
+    if (!['existing', 'new'].includes(settings.mergePrecedence)) {
+      throw new Error(`${name('mergePrecedence')} must be "existing" or "new"`);
+    }
+
+    if (settings.mergeOverwrite && !settings.merge) {
+      throw new Error(`${name('mergeOverwrite')} requires ${name('merge')}`);
+    }
+
+    if (!Number.isInteger(settings.concurrency) || settings.concurrency < 1) {
+      throw new Error(`${name('concurrency')} must be a positive number`);
+    }
+  }
+}
@@ -1,13 +1,37 @@
 import * as yaml from 'js-yaml';
 import * as fs from 'fs-extra';
-import { RepoConfig, MCPConfig, SecretsConfig } from '../types';
+import * as path from 'path';
+import { ParseError, parse as parseJSONC, printParseErrorCode } from 'jsonc-parser';
+import {
+  RepoConfig,
+  MCPConfig,
+  MCPConfigLayer,
+  MCPServerConfig,
+  SecretsConfig,
+  TemplateContext,
+  Repository,
+  ConfigFileFormat,
+  ConfigFileKind,
+  ValidationIssue
+} from '../types';
 import { Logger } from '../utils/logger';
+import { Redactor } from '../utils/redactor';
+import { SchemaValidator } from './schema';
+import { Glob } from '../utils/glob';
+import { RepositoryDiscovery } from '../github/discovery';
+import { SecretResolveOptions, SecretResolver } from './secret-providers';
+
+const REPOSITORY_TEMPLATE_FIELDS = ['name', 'owner', 'fullName', 'topics'];
+
+// The environment the Copilot coding agent reads MCP secrets from
+export const DEFAULT_ENVIRONMENT = 'copilot';
 
 export class ConfigParser {
   static async parseRepoConfig(filePath: string): Promise<RepoConfig> {
     try {
-      const content = await fs.readFile(filePath, 'utf8');
-      const config = yaml.load(content) as RepoConfig;
+      const { data, issues } = await this.loadConfigFile('repos', filePath);
+      this.assertValid(issues, filePath);
+      const config = data as RepoConfig;
       
       this.validateRepoConfig(config);
       return config;
@@ -17,29 +41,101 @@ export class ConfigParser {
   }
 
   static async parseMCPConfig(filePath: string): Promise<MCPConfig> {
+    return this.parseMCPConfigs([filePath]);
+  }
+
+  /**
+   * Parse one or more MCP config files, resolving each file's "extends" chain
+   * and overlaying the files left to right.
+   */
+  static async parseMCPConfigs(filePaths: string[]): Promise<MCPConfig> {
     try {
-      const content = await fs.readFile(filePath, 'utf8');
-      
-      // Only support JSON format for MCP config files
-      if (!filePath.toLowerCase().endsWith('.json')) {
-        throw new Error('MCP config files must be in JSON format. Please use a .json file extension.');
+      let config: MCPConfig | undefined;
+      for (const filePath of filePaths) {
+        // Files after the first are overlays, so their servers may be partial
+        const kind = config ? 'mcp-overlay' : 'mcp-config';
+        const layer = await this.loadMCPConfigLayer(path.resolve(filePath), kind, []);
+        config = config ? this.overlayMCPConfig(config, layer) : layer as MCPConfig;
       }
-      
-      const config = JSON.parse(content) as MCPConfig;
-      this.validateMCPConfig(config);
-      return config;
+
+      this.validateMCPConfig(config as MCPConfig);
+      return config as MCPConfig;
     } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error(`Failed to parse MCP config: Invalid JSON format. ${error.message}`);
-      }
       throw new Error(`Failed to parse MCP config: ${error}`);
     }
   }
 
+  /**
+   * Read an MCP config file and overlay it onto the files it extends. Base
+   * paths are resolved relative to the extending file.
+   */
+  private static async loadMCPConfigLayer(filePath: string, kind: ConfigFileKind, chain: string[]): Promise<MCPConfigLayer> {
+    if (chain.includes(filePath)) {
+      throw new Error(`MCP config "extends" chain is circular: ${[...chain, filePath].join(' -> ')}`);
+    }
+
+    const { data, issues } = await this.loadConfigFile(kind, filePath);
+    this.assertValid(issues, filePath);
+    const layer = data as MCPConfigLayer;
+    if (layer.extends === undefined) {
+      return layer;
+    }
+
+    const bases = Array.isArray(layer.extends) ? layer.extends : [layer.extends];
+    let config: MCPConfig = { mcpServers: {} };
+    for (const base of bases) {
+      const baseLayer = await this.loadMCPConfigLayer(path.resolve(path.dirname(filePath), base), 'mcp-config', [...chain, filePath]);
+      config = this.overlayMCPConfig(config, baseLayer);
+    }
+
+    return this.overlayMCPConfig(config, { mcpServers: layer.mcpServers, remove: layer.remove });
+  }
+
+  /**
+   * Overlay one config layer onto another. A server present in both is merged
+   * field by field unless its type changes, a null server drops the inherited
+   * definition, and "remove" lists are combined.
+   */
+  static overlayMCPConfig(base: MCPConfig, layer: MCPConfigLayer): MCPConfig {
+    const servers = { ...base.mcpServers };
+    const layerServers = layer.mcpServers || {};
+
+    const conflicting = (layer.remove || []).filter(name => layerServers[name]);
+    if (conflicting.length > 0) {
+      throw new Error(`MCP config cannot both define and remove servers: ${conflicting.join(', ')}`);
+    }
+
+    for (const [name, server] of Object.entries(layerServers)) {
+      const inherited = servers[name];
+      if (server === null) {
+        delete servers[name];
+      } else if (inherited && (!server.type || server.type === inherited.type)) {
+        servers[name] = { ...inherited, ...server };
+      } else {
+        servers[name] = server as MCPServerConfig;
+      }
+    }
+
+    for (const name of layer.remove || []) {
+      delete servers[name];
+    }
+
+    // A server defined again by a later layer is no longer removed
+    const remove = [...new Set([...(base.remove || []), ...(layer.remove || [])])]
+      .filter(name => !(name in servers));
+
+    const config: MCPConfig = { mcpServers: servers };
+    if (remove.length > 0) {
+      config.remove = remove;
+    }
+    return config;
+  }
+
   static async parseSecretsConfig(filePath: string): Promise<SecretsConfig> {
     try {
-      const content = await fs.readFile(filePath, 'utf8');
-      const config = yaml.load(content) as SecretsConfig;
+      const { data, issues } = await this.loadConfigFile('secrets', filePath);
+      this.assertValid(issues, filePath);
+      const config = data as SecretsConfig;
       
       this.validateSecretsConfig(config);
       return config;
@@ -48,25 +144,237 @@ export class ConfigParser {
     }
   }
 
+  /**
+   * Check a config file against its JSON Schema and the rules the schema
+   * cannot express, collecting every problem instead of stopping at the first.
+   * Warnings returned here are not logged again when the file is parsed.
+   */
+  static async validateFile(kind: ConfigFileKind, filePath: string): Promise<ValidationIssue[]> {
+    let data: unknown;
+    let issues: ValidationIssue[];
+    try {
+      ({ data, issues } = await this.loadConfigFile(kind, filePath));
+    } catch (error) {
+      return [{ severity: 'error', path: '$', message: (error as Error).message }];
+    }
+
+    issues
+      .filter(issue => issue.severity === 'warning')
+      .forEach(issue => this.reportedIssues.add(SchemaValidator.formatIssue(issue, filePath)));
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      return issues;
+    }
+
+    try {
+      if (kind === 'repos') {
+        this.validateRepoConfig(data as RepoConfig);
+      } else if (kind === 'secrets') {
+        this.validateSecretsConfig(data as SecretsConfig);
+      } else if (kind === 'mcp-config' && (data as MCPConfigLayer).extends === undefined) {
+        // Configs that extend others are only complete once resolved
+        this.validateMCPConfig(data as MCPConfig);
+      }
+    } catch (error) {
+      issues.push({ severity: 'error', path: '$', message: (error as Error).message });
+    }
+    return issues;
+  }
+
+  private static reportedIssues = new Set<string>();
+
+  /**
+   * A config file's content as written, without validating it or resolving
+   * "extends" and templates.
+   */
+  static async readConfigFile(kind: ConfigFileKind, filePath: string): Promise<unknown> {
+    return (await this.loadConfigFile(kind, filePath)).data;
+  }
+
+  /**
+   * The given MCP config files followed by every file they extend, each
+   * listed once, as read and without validation.
+   */
+  static async mcpConfigFiles(filePaths: string[]): Promise<Array<{ file: string; layer: MCPConfigLayer }>> {
+    const files: Array<{ file: string; layer: MCPConfigLayer }> = [];
+    const visited = new Set<string>();
+    const visit = async (file: string) => {
+      if (visited.has(path.resolve(file))) {
+        return;
+      }
+      visited.add(path.resolve(file));
+      const layer = (await this.readConfigFile('mcp-config', file) || {}) as MCPConfigLayer;
+      files.push({ file, layer });
+      const bases = layer.extends === undefined ? [] : Array.isArray(layer.extends) ? layer.extends : [layer.extends];
+      for (const base of bases) {
+        await visit(path.resolve(path.dirname(file), base));
+      }
+    };
+
+    for (const filePath of filePaths) {
+      await visit(filePath);
+    }
+    return files;
+  }
+
+  private static async loadConfigFile(kind: ConfigFileKind, filePath: string): Promise<{ data: unknown; issues: ValidationIssue[] }> {
+    const isMCPConfig = kind === 'mcp-config' || kind === 'mcp-overlay';
+    const format = isMCPConfig ? this.mcpConfigFormat(filePath) : 'yaml';
+
+    const content = await fs.readFile(filePath, 'utf8');
+    // The core schema keeps dates such as 2024-01-01 as strings
+    const data = format === 'json' ? this.parseJSON(content, filePath) : yaml.load(content, { schema: yaml.CORE_SCHEMA });
+    return { data, issues: SchemaValidator.validate(kind, data, content, format) };
+  }
+
+  private static mcpConfigFormat(filePath: string): ConfigFileFormat {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.json' || extension === '.jsonc') {
+      return 'json';
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return 'yaml';
+    }
+    throw new Error(`MCP config files must be .json, .jsonc, .yaml or .yml (got ${filePath})`);
+  }
+
+  /**
+   * Parse JSON that may contain comments and trailing commas, reporting
+   * syntax errors with their line and column.
+   */
+  private static parseJSON(content: string, filePath: string): unknown {
+    const errors: ParseError[] = [];
+    const data = parseJSONC(content, errors, { allowTrailingComma: true });
+    if (errors.length > 0) {
+      const details = errors.map(error => {
+        const { line, column } = SchemaValidator.positionAt(content, error.offset);
+        return `\n  ${filePath}:${line}:${column} ${printParseErrorCode(error.error)}`;
+      }).join('');
+      throw new Error(`Invalid JSON format:${details}`);
+    }
+    return data;
+  }
+
+  /**
+   * Log schema warnings (once per process) and fail with every schema error.
+   */
+  private static assertValid(issues: ValidationIssue[], filePath: string): void {
+    for (const issue of issues.filter(issue => issue.severity === 'warning')) {
+      const formatted = SchemaValidator.formatIssue(issue, filePath);
+      if (!this.reportedIssues.has(formatted)) {
+        this.reportedIssues.add(formatted);
+        Logger.warn(formatted);
+      }
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      const details = errors.map(issue => `\n  ${SchemaValidator.formatIssue(issue, filePath)}`).join('');
+      throw new Error(`${filePath} has ${errors.length} error${errors.length === 1 ? '' : 's'}:${details}`);
+    }
+  }
+
   private static validateRepoConfig(config: RepoConfig): void {
-    if (!config.repositories && !config.all_accessible_repos) {
-      throw new Error('Repository config must specify either "repositories" or "all_accessible_repos"');
+    if (!config.repositories && !config.all_accessible_repos && !config.organizations) {
+      throw new Error('Repository config must specify "repositories", "all_accessible_repos" or "organizations"');
+    }
+
+    if (config.repositories && !Array.isArray(config.repositories) && !Array.isArray(config.repositories.patterns)) {
+      throw new Error('Repository config "repositories" must be an array or an object with a "patterns" array');
+    }
+
+    if (config.organizations !== undefined) {
+      if (!Array.isArray(config.organizations)) {
+        throw new Error('Repository config "organizations" must be an array');
+      }
+      for (const organization of config.organizations) {
+        const name = typeof organization === 'string' ? organization : organization?.name;
+        if (typeof name !== 'string' || !/^[^/\s]+$/.test(name)) {
+          throw new Error(`Invalid organization ${JSON.stringify(organization)}: expected an organization name or {name, team}`);
+        }
+      }
     }
 
-    if (config.repositories && config.all_accessible_repos) {
-      throw new Error('Repository config cannot specify both "repositories" and "all_accessible_repos"');
+    const repositoryPatterns = [
+      ...(Array.isArray(config.repositories) ? config.repositories : config.repositories?.patterns || []),
+      ...(config.filters?.patterns || []),
+      ...(config.filters?.exclude || [])
+    ];
+    for (const pattern of repositoryPatterns.filter(entry => Glob.isPattern(entry))) {
+      try {
+        Glob.toRegExp(pattern);
+      } catch (error) {
+        throw new Error(`Invalid repository pattern "${pattern}": ${(error as Error).message}`);
+      }
     }
 
-    if (config.repositories && !Array.isArray(config.repositories)) {
-      throw new Error('Repository config "repositories" must be an array');
+    for (const key of ['pushed_since', 'updated_since'] as const) {
+      const since = config.filters?.[key];
+      if (since !== undefined) {
+        RepositoryDiscovery.parseSince(since);
+      }
     }
 
     if (config.options?.concurrency && config.options.concurrency < 1) {
       throw new Error('Concurrency must be at least 1');
     }
+
+    this.validateProfiles(config);
+  }
+
+  private static validateProfiles(config: RepoConfig): void {
+    const profiles = config.profiles || {};
+    if (typeof profiles !== 'object' || Array.isArray(profiles)) {
+      throw new Error('Repository config "profiles" must be an object');
+    }
+
+    for (const [name, profile] of Object.entries(profiles)) {
+      if (!profile || typeof profile !== 'object') {
+        throw new Error(`Profile "${name}" must be an object`);
+      }
+      if (profile.config !== undefined && (profile.mcpServers !== undefined || profile.remove !== undefined)) {
+        throw new Error(`Profile "${name}" must either reference a "config" file or define "mcpServers", not both`);
+      }
+      if (profile.config === undefined) {
+        this.validateMCPConfig({ mcpServers: profile.mcpServers || {}, remove: profile.remove });
+      } else if (typeof profile.config !== 'string') {
+        throw new Error(`Profile "${name}" "config" must be a file path`);
+      }
+    }
+
+    const assertKnown = (name: string, where: string) => {
+      if (!(name in profiles)) {
+        throw new Error(`${where} references unknown profile "${name}"`);
+      }
+    };
+
+    if (config.base_profile !== undefined) {
+      assertKnown(config.base_profile, '"base_profile"');
+    }
+
+    if (config.profile_assignments !== undefined) {
+      if (!Array.isArray(config.profile_assignments)) {
+        throw new Error('Repository config "profile_assignments" must be an array');
+      }
+      config.profile_assignments.forEach((assignment, index) => {
+        const where = `Profile assignment ${index + 1}`;
+        if (!Array.isArray(assignment.profiles) || assignment.profiles.length === 0) {
+          throw new Error(`${where} must list at least one profile`);
+        }
+        assignment.profiles.forEach(name => assertKnown(name, where));
+        if (!assignment.repositories && !assignment.patterns && !assignment.topics) {
+          throw new Error(`${where} must match by "repositories", "patterns" or "topics"`);
+        }
+        for (const key of ['repositories', 'patterns', 'topics'] as const) {
+          if (assignment[key] !== undefined && !Array.isArray(assignment[key])) {
+            throw new Error(`${where} "${key}" must be an array`);
+          }
+        }
+      });
+    }
   }
 
-  private static validateMCPConfig(config: MCPConfig): void {
+  static validateMCPConfig(config: MCPConfig): void {
     if (!config || typeof config !== 'object') {
       throw new Error('MCP config must be an object');
     }
@@ -75,6 +383,16 @@ export class ConfigParser {
       throw new Error('MCP config must have an "mcpServers" object property');
     }
 
+    if (config.remove !== undefined) {
+      if (!Array.isArray(config.remove) || !config.remove.every(name => typeof name === 'string')) {
+        throw new Error('MCP config "remove" must be an array of server names');
+      }
+      const conflicting = config.remove.filter(name => name in config.mcpServers);
+      if (conflicting.length > 0) {
+        throw new Error(`MCP config cannot both define and remove servers: ${conflicting.join(', ')}`);
+      }
+    }
+
     for (const [serverName, serverConfig] of Object.entries(config.mcpServers)) {
       if (!serverConfig || typeof serverConfig !== 'object') {
         throw new Error(`MCP server "${serverName}" config must be an object`);
@@ -99,6 +417,14 @@ export class ConfigParser {
           throw new Error(`Local MCP server "${serverName}" must have a "command" string property`);
         }
       }
+
+      // Catch misspelled repository templates before any repository is processed
+      const templated = JSON.stringify([serverConfig.url, serverConfig.headers, serverConfig.args, serverConfig.env]);
+      for (const match of templated.matchAll(/\{\{\s*repo\.(\w+)\s*\}\}/g)) {
+        if (!REPOSITORY_TEMPLATE_FIELDS.includes(match[1])) {
+          throw new Error(`MCP server "${serverName}" uses unknown template ${match[0]}`);
+        }
+      }
     }
   }
 
@@ -110,37 +436,131 @@ export class ConfigParser {
     if (config.variables && typeof config.variables !== 'object') {
       throw new Error('Secrets config "variables" must be an object');
     }
+
+    if (config.environment) {
+      if (typeof config.environment !== 'object') {
+        throw new Error('Secrets config "environment" must be an object');
+      }
+      if (config.environment.name !== undefined && (typeof config.environment.name !== 'string' || !config.environment.name.trim())) {
+        throw new Error('Secrets config "environment.name" must be a non-empty string');
+      }
+    }
   }
 
+  private static warnedVariables = new Set<string>();
+
   static resolveEnvironmentVariables(value: string): string {
-    // Replace {{ env.VARIABLE_NAME }} with actual environment variable values
-    return value.replace(/\{\{\s*env\.(\w+)\s*\}\}/g, (_, varName) => {
-      const envValue = process.env[varName];
-      if (envValue === undefined) {
-        Logger.warn(`Environment variable ${varName} is not set, using empty string as default`);
-        return ''; // Use empty string as default value
-      }
-      return envValue;
+    return this.renderTemplate(value, {});
+  }
+
+  /**
+   * Replace {{ env.NAME }} with environment variable values and, when a
+   * repository is given, {{ repo.name }}, {{ repo.owner }}, {{ repo.fullName }}
+   * and {{ repo.topics }} (comma separated) with its details.
+   */
+  static renderTemplate(value: string, context: TemplateContext): string {
+    return value.replace(/\{\{\s*(env|repo)\.(\w+)\s*\}\}/g, (placeholder, scope, key) => {
+      if (scope === 'env') {
+        const envValue = process.env[key];
+        if (envValue === undefined) {
+          if (context.strict) {
+            throw new Error(`Environment variable ${key} is not set`);
+          }
+          // Warn once per variable rather than once per repository
+          if (!this.warnedVariables.has(key)) {
+            this.warnedVariables.add(key);
+            Logger.warn(`Environment variable ${key} is not set, using empty string as default`);
+          }
+          return ''; // Use empty string as default value
+        }
+        return envValue;
+      }
+
+      if (!context.repo) {
+        throw new Error(`Template ${placeholder} can only be used in MCP configuration`);
+      }
+      return this.resolveRepositoryField(context.repo, key, placeholder);
     });
   }
 
-  static processSecretsConfig(config: SecretsConfig): SecretsConfig {
-    const processedConfig: SecretsConfig = {};
+  /**
+   * Render the templated fields (url, headers, args and env) of every server
+   * for one repository.
+   */
+  static renderMCPConfig(config: MCPConfig, repository: Repository, strict = false): MCPConfig {
+    const context: TemplateContext = { repo: repository, strict };
+    const render = (value: string) => this.renderTemplate(value, context);
+    const renderMap = (map: Record<string, string>) =>
+      Object.fromEntries(Object.entries(map).map(([key, value]) => {
+        const renderedValue = render(value);
+        // Credentials rendered into headers and env are masked wherever they are printed
+        if (renderedValue !== value && Redactor.isSensitiveKey(key)) {
+          Redactor.addSecrets([renderedValue]);
+        }
+        return [key, renderedValue];
+      }));
 
-    if (config.secrets) {
-      processedConfig.secrets = {};
-      for (const [key, value] of Object.entries(config.secrets)) {
-        processedConfig.secrets[key] = this.resolveEnvironmentVariables(value);
+    const rendered: MCPConfig = { ...config, mcpServers: {} };
+    for (const [serverName, serverConfig] of Object.entries(config.mcpServers)) {
+      const server: MCPServerConfig = { ...serverConfig };
+      if (server.url) {
+        server.url = render(server.url);
+      }
+      if (server.headers) {
+        server.headers = renderMap(server.headers);
+      }
+      if (server.args) {
+        server.args = server.args.map(render);
       }
+      if (server.env) {
+        server.env = renderMap(server.env);
+      }
+      rendered.mcpServers[serverName] = server;
     }
+    return rendered;
+  }
 
-    if (config.variables) {
-      processedConfig.variables = {};
-      for (const [key, value] of Object.entries(config.variables)) {
-        processedConfig.variables[key] = this.resolveEnvironmentVariables(value);
+  private static resolveRepositoryField(repository: Repository, key: string, placeholder: string): string {
+    switch (key) {
+      case 'name':
+        return repository.name;
+      case 'owner':
+        return repository.owner;
+      case 'fullName':
+        return repository.fullName;
+      case 'topics':
+        return repository.topics.join(',');
+      default:
+        throw new Error(`Unknown repository template ${placeholder}`);
+    }
+  }
+
+  /**
+   * Resolve the templates in every secret and variable, from the sources
+   * SecretResolver supports. In strict mode every value that cannot be
+   * resolved is reported at once.
+   */
+  static async processSecretsConfig(config: SecretsConfig, options: SecretResolveOptions = {}): Promise<SecretsConfig> {
+    const resolver = new SecretResolver(options);
+    const resolveScope = async (values: Pick<SecretsConfig, 'secrets' | 'variables'>, label: string) => {
+      const processed: Pick<SecretsConfig, 'secrets' | 'variables'> = {};
+      if (values.secrets) {
+        processed.secrets = await resolver.resolveAll(values.secrets, `${label}secrets`);
+      }
+      if (values.variables) {
+        processed.variables = await resolver.resolveAll(values.variables, `${label}variables`);
       }
+      return processed;
+    };
+
+    const processedConfig: SecretsConfig = await resolveScope(config, '');
+    if (config.environment) {
+      const { name = DEFAULT_ENVIRONMENT, ...values } = config.environment;
+      processedConfig.environment = { name, ...await resolveScope(values, 'environment.') };
     }
 
+    resolver.assertResolved();
+    Redactor.addSecrets([processedConfig, processedConfig.environment].flatMap(values => Object.values(values?.secrets || {})));
     return processedConfig;
   }
 }
\ No newline at end of file
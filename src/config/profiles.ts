@@ -0,0 +1,114 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { MCPConfig, ProfileAssignment, RepoConfig, Repository } from '../types';
+import { ConfigParser } from './parser';
+import { ConfigDiff } from '../plan/diff';
+import { Glob } from '../utils/glob';
+
+export class ProfileResolver {
+  constructor(
+    private readonly repoConfig: RepoConfig,
+    private readonly profiles: Record<string, MCPConfig>,
+    private readonly baseConfig?: MCPConfig
+  ) {}
+
+  /**
+   * Load the profiles declared in repos.yaml. Profile "config" paths are
+   * resolved relative to the repos.yaml file.
+   */
+  static async load(repoConfig: RepoConfig, repoConfigPath: string, baseConfig?: MCPConfig): Promise<ProfileResolver> {
+    const profiles: Record<string, MCPConfig> = {};
+    for (const [name, profile] of Object.entries(repoConfig.profiles || {})) {
+      if (profile.config) {
+        try {
+          profiles[name] = await ConfigParser.parseMCPConfig(path.resolve(path.dirname(repoConfigPath), profile.config));
+        } catch (error) {
+          throw new Error(`Failed to load profile "${name}": ${error}`);
+        }
+      } else {
+        profiles[name] = { mcpServers: profile.mcpServers || {}, remove: profile.remove };
+      }
+    }
+    return new ProfileResolver(repoConfig, profiles, baseConfig);
+  }
+
+  get hasProfiles(): boolean {
+    return Object.keys(this.profiles).length > 0;
+  }
+
+  /**
+   * Names of the profiles that apply to a repository: the base profile first,
+   * then every matching assignment in the order they are declared.
+   */
+  profilesFor(repository: Repository): string[] {
+    const names: string[] = [];
+    if (this.repoConfig.base_profile) {
+      names.push(this.repoConfig.base_profile);
+    }
+    for (const assignment of this.repoConfig.profile_assignments || []) {
+      if (this.matches(assignment, repository)) {
+        names.push(...assignment.profiles);
+      }
+    }
+    return [...new Set(names)];
+  }
+
+  /**
+   * The MCP configuration for a repository: --mcp-config, then its profiles,
+   * with later definitions of a server replacing earlier ones. Returns null
+   * when nothing applies to the repository.
+   */
+  resolve(repository: Repository): MCPConfig | null {
+    const layers = this.profilesFor(repository).map(name => this.profiles[name]);
+    if (this.baseConfig) {
+      layers.unshift(this.baseConfig);
+    }
+    if (layers.length === 0) {
+      return null;
+    }
+
+    const servers: MCPConfig['mcpServers'] = {};
+    const removals = new Set<string>();
+    for (const layer of layers) {
+      for (const [name, server] of Object.entries(layer.mcpServers)) {
+        servers[name] = server;
+        removals.delete(name);
+      }
+      for (const name of layer.remove || []) {
+        delete servers[name];
+        removals.add(name);
+      }
+    }
+
+    const resolved: MCPConfig = { mcpServers: servers };
+    if (removals.size > 0) {
+      resolved.remove = [...removals];
+    }
+    return resolved;
+  }
+
+  /**
+   * Hash of the resolved --mcp-config and every loaded profile and assignment,
+   * so resumed runs can detect a change made in any of the files involved.
+   */
+  fingerprint(): string {
+    return createHash('sha256').update(ConfigDiff.canonicalJSON({
+      mcpConfig: this.baseConfig || null,
+      profiles: this.profiles,
+      base_profile: this.repoConfig.base_profile || null,
+      profile_assignments: this.repoConfig.profile_assignments || []
+    })).digest('hex');
+  }
+
+  private matches(assignment: ProfileAssignment, repository: Repository): boolean {
+    const fullName = repository.fullName.toLowerCase();
+    if (assignment.repositories?.some(name => name.toLowerCase() === fullName)) {
+      return true;
+    }
+    if (assignment.patterns?.some(pattern => Glob.matches(repository.fullName, pattern))) {
+      return true;
+    }
+    const topics = repository.topics.map(topic => topic.toLowerCase());
+    return !!assignment.topics?.some(topic => topics.includes(topic.toLowerCase()));
+  }
+}
@@ -0,0 +1,232 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { LineCounter, Node, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import { Node as JSONNode, parseTree } from 'jsonc-parser';
+import { ConfigFileFormat, ConfigFileKind, ValidationIssue } from '../types';
+import reposSchema from './schemas/repos.schema.json';
+import mcpConfigSchema from './schemas/mcp-config.schema.json';
+import secretsSchema from './schemas/secrets.schema.json';
+
+const SCHEMA_REFS: Record<ConfigFileKind, string> = {
+  'repos': reposSchema.$id,
+  'mcp-config': mcpConfigSchema.$id,
+  'mcp-overlay': `${mcpConfigSchema.$id}#/definitions/overlay`,
+  'secrets': secretsSchema.$id
+};
+
+type Position = { line: number; column: number };
+type Locator = (segments: string[], atKey: boolean) => Position | undefined;
+
+export class SchemaValidator {
+  private static ajv: Ajv | undefined;
+  private static validators = new Map<ConfigFileKind, ValidateFunction>();
+
+  /**
+   * Validate a parsed config file against its JSON Schema, reporting every
+   * problem. Unknown keys are warnings; when the file content is given, issues
+   * carry the line and column they refer to.
+   */
+  static validate(kind: ConfigFileKind, data: unknown, content?: string, format: ConfigFileFormat = 'yaml'): ValidationIssue[] {
+    const validate = this.validatorFor(kind);
+    if (validate(data)) {
+      return [];
+    }
+
+    const locate = content === undefined
+      ? undefined
+      : format === 'json' ? this.createJSONLocator(content) : this.createYAMLLocator(content);
+    const issues = (validate.errors || [])
+      // "if" only repeats the errors of the branch that failed
+      .filter(error => error.keyword !== 'if')
+      .map(error => this.toIssue(error, locate));
+
+    return issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0));
+  }
+
+  static formatIssue(issue: ValidationIssue, filePath: string): string {
+    const location = issue.line ? `${filePath}:${issue.line}:${issue.column}` : filePath;
+    return `${location} ${issue.path}: ${issue.message}`;
+  }
+
+  /**
+   * The candidate closest to a misspelled name, if any is close enough to be
+   * a likely typo.
+   */
+  static suggest(name: string, candidates: string[]): string | undefined {
+    let best: string | undefined;
+    let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+    for (const candidate of candidates) {
+      const distance = this.editDistance(name.toLowerCase(), candidate.toLowerCase());
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  private static validatorFor(kind: ConfigFileKind): ValidateFunction {
+    let validate = this.validators.get(kind);
+    if (!validate) {
+      if (!this.ajv) {
+        this.ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+        this.ajv.addSchema([reposSchema, mcpConfigSchema, secretsSchema]);
+      }
+      validate = this.ajv.getSchema(SCHEMA_REFS[kind]);
+      if (!validate) {
+        throw new Error(`No schema registered for ${kind} config files`);
+      }
+      this.validators.set(kind, validate);
+    }
+    return validate;
+  }
+
+  /**
+   * 1-based line and column of a character offset.
+   */
+  static positionAt(content: string, offset: number): Position {
+    const before = content.slice(0, offset).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  }
+
+  private static toIssue(error: ErrorObject, locate?: Locator): ValidationIssue {
+    const segments = error.instancePath.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+    let severity: ValidationIssue['severity'] = 'error';
+    let message = error.message || 'is invalid';
+    let atKey = false;
+
+    switch (error.keyword) {
+      case 'additionalProperties': {
+        const key = error.params.additionalProperty as string;
+        const known = Object.keys((error.parentSchema as { properties?: object })?.properties || {});
+        const suggestion = this.suggest(key, known);
+        segments.push(key);
+        severity = 'warning';
+        atKey = true;
+        message = `unknown key "${key}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`;
+        break;
+      }
+      case 'required':
+        message = `must have a "${error.params.missingProperty}" property`;
+        break;
+      case 'enum':
+        message = `must be one of: ${(error.params.allowedValues as unknown[]).map(value => JSON.stringify(value)).join(', ')}`;
+        break;
+      case 'type':
+        message = `must be ${String(error.params.type).split(',')
+          .map(type => `${['array', 'object', 'integer'].includes(type) ? 'an' : 'a'} ${type}`)
+          .join(' or ')}`;
+        break;
+    }
+
+    const position = locate?.(segments, atKey);
+    return {
+      severity,
+      path: this.formatPath(segments),
+      message,
+      ...position
+    };
+  }
+
+  static formatPath(segments: string[]): string {
+    return segments.reduce((jsonPath, segment) => {
+      if (/^\d+$/.test(segment)) {
+        return `${jsonPath}[${segment}]`;
+      }
+      return /^[A-Za-z_$][\w$]*$/.test(segment) ? `${jsonPath}.${segment}` : `${jsonPath}[${JSON.stringify(segment)}]`;
+    }, '$');
+  }
+
+  /**
+   * Map a JSON path to its position in a YAML source, falling back to the
+   * nearest existing parent when the path itself is missing.
+   */
+  private static createYAMLLocator(content: string): Locator | undefined {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(content, { lineCounter });
+    if (document.errors.length > 0) {
+      return undefined;
+    }
+
+    return (segments: string[], atKey: boolean) => {
+      let node = document.contents as Node | null;
+      let found: Node | null = node;
+
+      for (let i = 0; i < segments.length && node; i++) {
+        const segment = segments[i];
+        if (isMap(node)) {
+          const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === segment);
+          if (!pair) {
+            break;
+          }
+          const isLast = i === segments.length - 1;
+          node = (isLast && atKey ? pair.key : pair.value) as Node | null;
+        } else if (isSeq(node)) {
+          node = node.items[Number(segment)] as Node | null;
+        } else {
+          break;
+        }
+        if (node) {
+          found = node;
+        }
+      }
+
+      if (!found?.range) {
+        return undefined;
+      }
+      const { line, col } = lineCounter.linePos(found.range[0]);
+      return { line, column: col };
+    };
+  }
+
+  /**
+   * Map a JSON path to its position in a JSON (or JSON with comments) source.
+   */
+  private static createJSONLocator(content: string): Locator | undefined {
+    const root = parseTree(content, undefined, { allowTrailingComma: true });
+    if (!root) {
+      return undefined;
+    }
+
+    return (segments: string[], atKey: boolean) => {
+      let node: JSONNode | undefined = root;
+      let found: JSONNode = root;
+
+      for (let i = 0; i < segments.length && node; i++) {
+        const segment: string = segments[i];
+        if (node.type === 'object') {
+          const property: JSONNode | undefined = node.children?.find(child => child.children?.[0].value === segment);
+          if (!property?.children) {
+            break;
+          }
+          const isLast = i === segments.length - 1;
+          node = isLast && atKey ? property.children[0] : property.children[1];
+        } else if (node.type === 'array') {
+          node = node.children?.[Number(segment)];
+        } else {
+          break;
+        }
+        if (node) {
+          found = node;
+        }
+      }
+
+      return this.positionAt(content, found.offset);
+    };
+  }
+
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
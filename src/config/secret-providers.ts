@@ -0,0 +1,211 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { Logger } from '../utils/logger';
+
+const execAsync = promisify(exec);
+
+// Longest a {{ cmd "..." }} command may run
+const COMMAND_TIMEOUT = 30 * 1000;
+
+// A quoted argument: "..." with JSON escapes, or '...' taken literally
+const QUOTED = String.raw`"(?:[^"\\]|\\.)*"|'[^']*'`;
+// {{ env.NAME }}, {{ dotenv.NAME }}, {{ file "path" }} or {{ cmd "command" }}, each with an optional | default "value"
+const EXPRESSION = new RegExp(String.raw`^(?:(env|dotenv)\.(\w+)|(file|cmd)\s+(${QUOTED}))(?:\s*\|\s*default\s+(${QUOTED}))?$`);
+const PLACEHOLDER = /\{\{\s*(.*?)\s*\}\}/g;
+
+export interface SecretResolveOptions {
+  // Fail when a value without a default cannot be resolved, instead of using an empty string
+  strict?: boolean;
+  // Files read by {{ dotenv.NAME }}, later files taking precedence (default: .env if it exists)
+  envFiles?: string[];
+  // Directory {{ file "..." }} paths are relative to
+  baseDir?: string;
+}
+
+/**
+ * A source of secret values. resolve throws, saying why, when the value is
+ * not available.
+ */
+export interface SecretProvider {
+  resolve(argument: string): Promise<string>;
+}
+
+export class EnvProvider implements SecretProvider {
+  async resolve(name: string): Promise<string> {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return value;
+  }
+}
+
+export class DotenvProvider implements SecretProvider {
+  private values: Promise<Record<string, string>> | null = null;
+
+  constructor(private readonly files: string[] | undefined) {}
+
+  async resolve(name: string): Promise<string> {
+    if (!this.values) {
+      this.values = this.load();
+    }
+    const value = (await this.values)[name];
+    if (value === undefined) {
+      throw new Error(`${name} is not defined in ${(this.files || ['.env']).join(', ')}`);
+    }
+    return value;
+  }
+
+  /**
+   * Parse KEY=value lines, allowing "export", comments and quoted values.
+   */
+  static parse(content: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+      if (!match) {
+        continue;
+      }
+      const raw = match[2].trim();
+      if (raw.startsWith('"') && raw.lastIndexOf('"') > 0) {
+        values[match[1]] = raw.slice(1, raw.lastIndexOf('"')).replace(/\\n/g, '\n').replace(/\\(["\\])/g, '$1');
+      } else if (raw.startsWith('\'') && raw.lastIndexOf('\'') > 0) {
+        values[match[1]] = raw.slice(1, raw.lastIndexOf('\''));
+      } else {
+        values[match[1]] = raw.replace(/\s+#.*$/, '');
+      }
+    }
+    return values;
+  }
+
+  private async load(): Promise<Record<string, string>> {
+    const values: Record<string, string> = {};
+    for (const file of this.files || ['.env']) {
+      if (!await fs.pathExists(file)) {
+        // The default .env is optional; files given explicitly are not
+        if (this.files) {
+          throw new Error(`Dotenv file ${file} not found`);
+        }
+        continue;
+      }
+      Object.assign(values, DotenvProvider.parse(await fs.readFile(file, 'utf8')));
+    }
+    return values;
+  }
+}
+
+export class FileProvider implements SecretProvider {
+  constructor(private readonly baseDir: string = process.cwd()) {}
+
+  async resolve(filePath: string): Promise<string> {
+    const resolved = path.resolve(this.baseDir, filePath);
+    try {
+      // Drop the trailing newline editors add
+      return (await fs.readFile(resolved, 'utf8')).replace(/\r?\n$/, '');
+    } catch (error) {
+      throw new Error(`Could not read ${resolved}: ${(error as NodeJS.ErrnoException).code || error}`);
+    }
+  }
+}
+
+export class CommandProvider implements SecretProvider {
+  // Each command runs once however many values use it
+  private outputs = new Map<string, Promise<string>>();
+
+  resolve(command: string): Promise<string> {
+    let output = this.outputs.get(command);
+    if (!output) {
+      output = this.run(command);
+      this.outputs.set(command, output);
+    }
+    return output;
+  }
+
+  private async run(command: string): Promise<string> {
+    try {
+      const { stdout } = await execAsync(command, { timeout: COMMAND_TIMEOUT });
+      return stdout.replace(/\r?\n$/, '');
+    } catch (error) {
+      const { code, stderr } = error as { code?: number | string; stderr?: string };
+      // The command line is not repeated: it may itself contain a secret
+      throw new Error(`Command failed${code !== undefined ? ` with exit code ${code}` : ''}${stderr?.trim() ? `: ${stderr.trim()}` : ''}`);
+    }
+  }
+}
+
+export class SecretResolver {
+  private readonly providers: Record<string, SecretProvider>;
+  private readonly warned = new Set<string>();
+  private readonly failures: string[] = [];
+
+  constructor(private readonly options: SecretResolveOptions = {}) {
+    this.providers = {
+      env: new EnvProvider(),
+      dotenv: new DotenvProvider(options.envFiles),
+      file: new FileProvider(options.baseDir),
+      cmd: new CommandProvider()
+    };
+  }
+
+  /**
+   * Resolve every {{ ... }} in a set of values. A value that cannot be
+   * resolved and has no default becomes an empty string with a warning, or in
+   * strict mode is recorded for assertResolved.
+   */
+  async resolveAll(values: Record<string, string>, label: string): Promise<Record<string, string>> {
+    const resolved: Record<string, string> = {};
+    for (const [key, value] of Object.entries(values)) {
+      const replacements: string[] = [];
+      for (const [placeholder, expression] of value.matchAll(PLACEHOLDER)) {
+        replacements.push(await this.evaluate(placeholder, expression, `${label}.${key}`));
+      }
+      resolved[key] = value.replace(PLACEHOLDER, () => replacements.shift()!);
+    }
+    return resolved;
+  }
+
+  /**
+   * Fail with every value strict mode could not resolve.
+   */
+  assertResolved(): void {
+    if (this.failures.length > 0) {
+      const count = this.failures.length;
+      throw new Error(`Could not resolve ${count} required value${count === 1 ? '' : 's'}:\n  ${this.failures.join('\n  ')}`);
+    }
+  }
+
+  private async evaluate(placeholder: string, expression: string, where: string): Promise<string> {
+    if (/^repo\.\w+$/.test(expression)) {
+      throw new Error(`Template ${placeholder} can only be used in MCP configuration`);
+    }
+    const match = expression.match(EXPRESSION);
+    if (!match) {
+      throw new Error(`Unknown template ${placeholder} in ${where}`);
+    }
+
+    const [, namedSource, name, quotedSource, quoted, quotedDefault] = match;
+    try {
+      return await this.providers[namedSource || quotedSource].resolve(name ?? this.unquote(quoted));
+    } catch (error) {
+      if (quotedDefault !== undefined) {
+        return this.unquote(quotedDefault);
+      }
+
+      const reason = `${where}: ${(error as Error).message}`;
+      if (this.options.strict) {
+        this.failures.push(reason);
+      } else if (!this.warned.has(placeholder)) {
+        // Warn once per placeholder rather than once per value using it
+        this.warned.add(placeholder);
+        Logger.warn(`${reason}; using an empty string`);
+      }
+      return '';
+    }
+  }
+
+  private unquote(quoted: string): string {
+    return quoted.startsWith('\'') ? quoted.slice(1, -1) : JSON.parse(quoted);
+  }
+}
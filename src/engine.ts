@@ -1,28 +1,90 @@
 import { ConfigParser } from './config/parser';
-import { GitHubCLI } from './github/cli';
-import { GitHubAPIAutomator } from './github/api';
+import { GitHubClient } from './github/client';
+import { GitHubHttp } from './github/http';
+import { APIAutomatorOptions, GitHubAPIAutomator } from './github/api';
+import { RepositoryDiscovery } from './github/discovery';
 import { BrowserAutomator } from './browser/automator';
 import { Logger } from './utils/logger';
+import { Redactor } from './utils/redactor';
+import { RunStateStore } from './state/run-state';
+import { ManagedNames, ManagedValuesStore } from './state/managed-values';
+import { ConfigDiff } from './plan/diff';
+import { PlanFile, PLAN_FILE_VERSION } from './plan/plan-file';
+import { DriftDetector } from './audit/drift';
+import { MergeOptions } from './config/merge';
+import { ProfileResolver } from './config/profiles';
 import {
+  ApplyOptions,
+  AuditReport,
+  AuditResult,
+  ConfigSnapshot,
   ConfigurationOptions,
+  DiscoveryOptions,
+  ConfigurationPlan,
+  DriftFinding,
+  ExportIndex,
+  ExportIndexEntry,
+  ExportOptions,
+  RepoConfig,
+  RepositoryPlan,
+  RollbackOptions,
   Repository,
   MCPConfig,
   SecretsConfig,
   OperationResult,
   OperationSummary,
-  MergeStrategy
+  MergeStrategy,
+  PlannedAction,
+  RunState,
+  ServerChangeSet,
+  ValueChangeSet,
+  ValueCounts
 } from './types';
 import ora from 'ora';
 import chalk from 'chalk';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+// Secrets and variables set in one place: the repository or an environment
+interface SecretScope {
+  label: string;
+  values: Pick<SecretsConfig, 'secrets' | 'variables'>;
+  environment?: string;
+}
+
+// Prefix of the ManagedValuesStore scope labels of environments
+const ENVIRONMENT_SCOPE = 'environment ';
+
+// Why an empty API read is not taken as "no configuration"
+const UNTRUSTED_EMPTY_READ = 'no MCP configuration found at guessed API endpoints; run "copilot-config probe-api <repo>" to record the one that works';
+
+type ValueChanges = Pick<OperationResult['changes'], 'secrets' | 'variables'>;
+
+// Reads and writes the secrets and variables of one scope
+interface ScopeClient {
+  listSecrets(): Promise<string[]>;
+  listVariables(): Promise<Record<string, string>>;
+  setSecret(name: string, value: string): Promise<void>;
+  setVariable(name: string, value: string): Promise<void>;
+  deleteSecret(name: string): Promise<void>;
+  deleteVariable(name: string): Promise<void>;
+}
 
 export class ConfigurationEngine {
-  private githubCLI: GitHubCLI;
+  private githubClient: Promise<GitHubClient> | null = null;
   private apiAutomator: GitHubAPIAutomator;
   private browserAutomator: BrowserAutomator;
   private spinner: any;
+  private mergeOptions: MergeOptions = {};
+  // Fail on unset environment variables in MCP configuration templates
+  private strict = false;
+  // Delete managed secrets and variables the secrets file no longer defines
+  private pruneSecrets = false;
+  private managedValues = new ManagedValuesStore();
+  // Rate limit waits before this engine started, so summaries only count its own
+  private readonly rateLimitWaitAtStart = GitHubHttp.shared.stats.waitedMs;
 
   constructor() {
-    this.githubCLI = new GitHubCLI();
     this.apiAutomator = new GitHubAPIAutomator();
     // BrowserAutomator will be initialized with debug mode in configure method
     this.browserAutomator = new BrowserAutomator();
@@ -42,55 +104,86 @@ export class ConfigurationEngine {
 
       // Parse configuration files
       this.spinner.text = 'Parsing configuration files...';
-      const repoConfig = await ConfigParser.parseRepoConfig(options.repoConfig);
-      const mcpConfig = await ConfigParser.parseMCPConfig(options.mcpConfig);
-      
-      let secretsConfig: SecretsConfig | undefined;
-      if (options.secretsConfig) {
-        secretsConfig = await ConfigParser.parseSecretsConfig(options.secretsConfig);
-        secretsConfig = ConfigParser.processSecretsConfig(secretsConfig);
-      }
+      const { repoConfig, profiles, secretsConfig } = await this.parseConfigurations(options);
 
       // Determine merge strategy
       const mergeStrategy = this.determineMergeStrategy(options);
+      this.mergeOptions = { precedence: options.mergePrecedence, prune: options.prune };
+      this.strict = !!options.strict;
+      this.pruneSecrets = !!options.pruneSecrets;
+      this.managedValues = new ManagedValuesStore(options.stateDir);
       Logger.info(`Using merge strategy: ${mergeStrategy}`);
 
       // Discover repositories
       this.spinner.text = 'Discovering repositories...';
-      const repositories = await this.discoverRepositories(repoConfig);
+      let repositories = this.selectConfigurable(await this.discoverRepositories(repoConfig, options), profiles);
       
       if (repositories.length === 0) {
         this.spinner.fail('No repositories found matching the criteria');
         return this.createSummary([], startTime);
       }
 
+      // Load or create the persistent run state
+      const runStore = new RunStateStore(options.stateDir);
+      const configHashes = await RunStateStore.hashConfigFiles(options, profiles.fingerprint());
+      let runState: RunState | undefined;
+
+      if (options.resume || options.retryFailed) {
+        const previousRun = await runStore.loadLatest();
+        if (!previousRun) {
+          throw new Error('No previous run state found to resume from');
+        }
+        runStore.assertCompatible(previousRun, configHashes, mergeStrategy);
+
+        const discovered = repositories.length;
+        repositories = RunStateStore.selectPending(repositories, previousRun, !!options.retryFailed);
+        Logger.info(`Continuing run ${previousRun.runId}: ${repositories.length} of ${discovered} repositories pending`);
+
+        if (repositories.length === 0) {
+          this.spinner.succeed(`Nothing left to do for run ${previousRun.runId}`);
+          return this.createSummary([], startTime, previousRun.runId);
+        }
+        runState = previousRun;
+      }
+
       this.spinner.succeed(`Found ${repositories.length} repositories to configure`);
+      if (options.strict) {
+        this.assertRenderable(repositories, profiles);
+      }
 
       if (options.dryRun) {
         console.log(chalk.yellow('\n🔍 DRY RUN MODE - No changes will be applied\n'));
-        await this.displayDryRunPreview(repositories, mcpConfig, secretsConfig, mergeStrategy);
+        await this.initializeAutomators(options);
+        const plans = await this.buildRepositoryPlans(repositories, profiles, secretsConfig, mergeStrategy, options.apiOnly, options.interactiveAuth);
+        await this.apiAutomator.cleanup();
+        await this.browserAutomator.cleanup();
+        this.displayPlan(plans, mergeStrategy);
+        console.log(chalk.yellow('\nRun without --dry-run to apply these changes.'));
         return this.createSummary([], startTime);
       }
 
-      // Initialize API automator first (faster and less resource intensive)
-      await this.apiAutomator.initialize();
-      
-      // Only initialize browser automation if not in API-only mode
-      if (!options.apiOnly) {
-        this.browserAutomator = new BrowserAutomator(options.debug, options.interactiveAuth);
-        await this.browserAutomator.initialize();
-        await this.browserAutomator.authenticateWithGitHub();
+      if (!runState) {
+        runState = await runStore.create(configHashes, mergeStrategy);
       }
+      const activeRun = runState;
+
+      await this.initializeAutomators(options);
 
       // Process repositories
       const results = await this.processRepositories(
         repositories,
-        mcpConfig,
-        secretsConfig,
-        mergeStrategy,
+        repo => repo.fullName,
         options.concurrency,
-        options.apiOnly,
-        options.interactiveAuth
+        repo => this.processRepository(
+          repo,
+          profiles,
+          secretsConfig,
+          mergeStrategy,
+          options.apiOnly,
+          options.interactiveAuth
+        ),
+        result => runStore.recordResult(activeRun, result),
+        options.continueOnError ?? true
       );
 
       // Cleanup
@@ -98,7 +191,7 @@ export class ConfigurationEngine {
       await this.browserAutomator.cleanup();
 
       // Generate summary
-      const summary = this.createSummary(results, startTime);
+      const summary = this.createSummary(results, startTime, activeRun.runId);
       this.displaySummary(summary);
 
       return summary;
@@ -110,10 +203,605 @@ export class ConfigurationEngine {
     }
   }
 
+  async plan(options: ConfigurationOptions, outFile: string): Promise<ConfigurationPlan> {
+    this.spinner = ora('Starting planning process...').start();
+
+    try {
+      if (options.verbose) {
+        Logger.setLevel('debug');
+      }
+
+      this.spinner.text = 'Parsing configuration files...';
+      const { repoConfig, profiles, secretsConfig } = await this.parseConfigurations(options);
+      const mergeStrategy = this.determineMergeStrategy(options);
+      this.mergeOptions = { precedence: options.mergePrecedence, prune: options.prune };
+      this.strict = !!options.strict;
+      this.pruneSecrets = !!options.pruneSecrets;
+      this.managedValues = new ManagedValuesStore(options.stateDir);
+
+      this.spinner.text = 'Discovering repositories...';
+      const repositories = this.selectConfigurable(await this.discoverRepositories(repoConfig, options), profiles);
+      this.spinner.succeed(`Found ${repositories.length} repositories to plan`);
+      if (options.strict) {
+        this.assertRenderable(repositories, profiles);
+      }
+
+      await this.initializeAutomators(options);
+      const plans = await this.buildRepositoryPlans(repositories, profiles, secretsConfig, mergeStrategy, options.apiOnly, options.interactiveAuth);
+      await this.apiAutomator.cleanup();
+      await this.browserAutomator.cleanup();
+
+      const plan: ConfigurationPlan = {
+        version: PLAN_FILE_VERSION,
+        createdAt: new Date().toISOString(),
+        mergeStrategy,
+        configHashes: await RunStateStore.hashConfigFiles(options, profiles.fingerprint()),
+        secretsConfig: options.secretsConfig,
+        pruneSecrets: this.pruneSecrets,
+        repositories: plans
+      };
+
+      await PlanFile.write(outFile, plan);
+      this.displayPlan(plans, mergeStrategy);
+      console.log(chalk.green(`\n💾 Plan saved to ${outFile}`));
+      console.log(chalk.yellow(`Review it, then run: copilot-config apply ${outFile}`));
+
+      return plan;
+    } catch (error) {
+      this.spinner?.fail('Planning failed');
+      Logger.error('Planning failed', { error: (error as Error).toString() });
+      throw error;
+    }
+  }
+
+  async apply(options: ApplyOptions): Promise<OperationSummary> {
+    const startTime = Date.now();
+    this.spinner = ora('Loading plan...').start();
+
+    try {
+      if (options.verbose) {
+        Logger.setLevel('debug');
+      }
+
+      const plan = await PlanFile.read(options.planFile);
+
+      // Secret values are never written to the plan, so they are re-read from the
+      // same secrets file, which must not have changed since planning
+      let secretsConfig: SecretsConfig | undefined;
+      if (plan.secretsConfig) {
+        const secretsHash = await RunStateStore.hashFile(plan.secretsConfig);
+        if (secretsHash !== plan.configHashes.secretsConfig) {
+          throw new Error(`Secrets file ${plan.secretsConfig} has changed since the plan was created`);
+        }
+        secretsConfig = await ConfigParser.processSecretsConfig(await ConfigParser.parseSecretsConfig(plan.secretsConfig), {
+          strict: options.strict,
+          envFiles: options.envFiles,
+          baseDir: path.dirname(plan.secretsConfig)
+        });
+      }
+
+      const repoPlans = plan.repositories.filter(repoPlan => {
+        if (repoPlan.readError) {
+          Logger.warn(`Skipping ${repoPlan.repository}: configuration was unreadable when planned`);
+          return false;
+        }
+        return repoPlan.mcpConfig?.willChange || this.valuesChange(repoPlan);
+      });
+
+      if (repoPlans.length === 0) {
+        this.spinner.succeed('Plan contains no changes');
+        return this.createSummary([], startTime);
+      }
+
+      this.spinner.succeed(`Applying plan to ${repoPlans.length} repositories`);
+
+      const runStore = new RunStateStore(options.stateDir);
+      const runState = await runStore.create(plan.configHashes, plan.mergeStrategy);
+      // As in configure, nothing is pruned without a secrets file
+      this.pruneSecrets = !!plan.pruneSecrets && !!secretsConfig;
+      this.managedValues = new ManagedValuesStore(options.stateDir);
+
+      await this.initializeAutomators(options);
+      this.spinner.start();
+
+      const results = await this.processRepositories(
+        repoPlans,
+        repoPlan => repoPlan.repository,
+        options.concurrency,
+        repoPlan => this.applyRepositoryPlan(
+          repoPlan,
+          secretsConfig,
+          options.apiOnly,
+          options.interactiveAuth
+        ),
+        result => runStore.recordResult(runState, result)
+      );
+
+      await this.apiAutomator.cleanup();
+      await this.browserAutomator.cleanup();
+
+      const summary = this.createSummary(results, startTime, runState.runId);
+      this.displaySummary(summary);
+      return summary;
+    } catch (error) {
+      this.spinner?.fail('Apply failed');
+      Logger.error('Apply failed', { error: (error as Error).toString() });
+      throw error;
+    }
+  }
+
+  async rollback(options: RollbackOptions): Promise<OperationSummary> {
+    const startTime = Date.now();
+    this.spinner = ora(`Loading snapshots for run ${options.runId}...`).start();
+
+    try {
+      if (options.verbose) {
+        Logger.setLevel('debug');
+      }
+
+      const runStore = new RunStateStore(options.stateDir);
+      const originalRun = await runStore.load(options.runId);
+      const snapshots = await runStore.loadSnapshots(options.runId);
+
+      if (snapshots.length === 0) {
+        this.spinner.succeed(`Run ${options.runId} has no applied MCP changes to roll back`);
+        return this.createSummary([], startTime);
+      }
+
+      this.spinner.succeed(`Found ${snapshots.length} repositories changed by run ${options.runId}`);
+
+      if (options.dryRun) {
+        console.log(chalk.yellow('\n🔍 DRY RUN MODE - No changes will be applied\n'));
+        for (const snapshot of snapshots) {
+          console.log(chalk.white(`\n📁 ${snapshot.repository}${snapshot.before ? '' : ' (had no configuration before)'}`));
+          console.log(ConfigDiff.formatJSONDiff(snapshot.after, snapshot.before || { mcpServers: {} }));
+        }
+        return this.createSummary([], startTime);
+      }
+
+      // The rollback is itself recorded as a run so it can be rolled back too
+      const rollbackRun = await runStore.create(originalRun.configHashes, MergeStrategy.FORCE_OVERWRITE);
+
+      await this.initializeAutomators(options);
+      this.spinner.start();
+
+      const results = await this.processRepositories(
+        snapshots,
+        snapshot => snapshot.repository,
+        options.concurrency,
+        snapshot => this.rollbackRepository(snapshot, options),
+        result => runStore.recordResult(rollbackRun, result)
+      );
+
+      await this.apiAutomator.cleanup();
+      await this.browserAutomator.cleanup();
+
+      const summary = this.createSummary(results, startTime, rollbackRun.runId);
+      this.displaySummary(summary);
+      return summary;
+    } catch (error) {
+      this.spinner?.fail('Rollback failed');
+      Logger.error('Rollback failed', { error: (error as Error).toString() });
+      throw error;
+    }
+  }
+
+  private async rollbackRepository(snapshot: ConfigSnapshot, options: RollbackOptions): Promise<OperationResult> {
+    const startTime = Date.now();
+    const result: OperationResult = {
+      repository: snapshot.repository,
+      success: false,
+      changes: {},
+      duration: 0
+    };
+
+    try {
+      const liveConfig = await this.readLiveConfig(snapshot.repository, options.apiOnly, options.interactiveAuth);
+
+      if (!ConfigDiff.isEqual(liveConfig, snapshot.after)) {
+        if (!options.force) {
+          throw new Error(`Live MCP configuration has changed since run ${snapshot.runId}; use --force to roll back anyway`);
+        }
+        Logger.warn(`Live MCP configuration for ${snapshot.repository} has changed since run ${snapshot.runId}, rolling back anyway`);
+        console.log(chalk.yellow(`⚠️  ${snapshot.repository}: live configuration changed since run ${snapshot.runId}, overwriting (--force)`));
+      }
+
+      // A repository that had no configuration is restored to an empty server set
+      const restored: MCPConfig = snapshot.before || { mcpServers: {} };
+      await this.writeLiveConfig(snapshot.repository, restored, options.apiOnly, options.interactiveAuth);
+
+      result.changes.mcpConfig = {
+        before: liveConfig,
+        after: restored,
+        strategy: 'rollback'
+      };
+      result.success = true;
+      Logger.info(`Rolled back MCP configuration for ${snapshot.repository}`);
+    } catch (error) {
+      result.error = (error as Error).toString();
+      Logger.error(`Failed to roll back ${snapshot.repository}: ${error}`);
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Back up every discovered repository's current MCP configuration, one JSON
+   * file per repository plus an index.json describing the export.
+   */
+  async export(options: ExportOptions): Promise<ExportIndex> {
+    this.spinner = ora('Starting export...').start();
+
+    try {
+      if (options.verbose) {
+        Logger.setLevel('debug');
+      }
+
+      const repoConfig = await ConfigParser.parseRepoConfig(options.repoConfig);
+
+      this.spinner.text = 'Discovering repositories...';
+      const repositories = await this.discoverRepositories(repoConfig, options);
+      this.spinner.succeed(`Found ${repositories.length} repositories to export`);
+
+      await fs.ensureDir(options.outDir);
+      await this.initializeAutomators(options);
+
+      const entries: ExportIndexEntry[] = [];
+      for (const repo of repositories) {
+        this.spinner.start(`Exporting ${repo.fullName}...`);
+        const entry = await this.exportRepository(repo.fullName, options);
+        entries.push(entry);
+
+        if (entry.error) {
+          this.spinner.fail(`${repo.fullName}: ${entry.error}`);
+        } else {
+          this.spinner.succeed(`${repo.fullName} → ${entry.file} (${entry.source}${entry.hasConfig ? '' : ', no configuration'})`);
+        }
+      }
+
+      await this.apiAutomator.cleanup();
+      await this.browserAutomator.cleanup();
+
+      const index: ExportIndex = {
+        exportedAt: new Date().toISOString(),
+        repositories: entries
+      };
+      await fs.writeJson(path.join(options.outDir, 'index.json'), index, { spaces: 2 });
+
+      const failed = entries.filter(entry => entry.error).length;
+      console.log(chalk.cyan(`\n📦 Exported ${entries.length - failed} repositories to ${options.outDir}`));
+      if (failed > 0) {
+        console.log(chalk.red(`❌ ${failed} repositories could not be read (see index.json)`));
+      }
+      console.log(chalk.yellow('Restore a repository with: copilot-config configure --repos <repos.yaml> --mcp-config <exported file> --force-overwrite'));
+
+      return index;
+    } catch (error) {
+      this.spinner?.fail('Export failed');
+      Logger.error('Export failed', { error: (error as Error).toString() });
+      throw error;
+    }
+  }
+
+  private async exportRepository(repositoryName: string, options: ExportOptions): Promise<ExportIndexEntry> {
+    const entry: ExportIndexEntry = { repository: repositoryName, hasConfig: false };
+
+    let config: MCPConfig | null;
+    try {
+      ({ config, source: entry.source } = await this.readLiveConfigWithSource(repositoryName, options.apiOnly, options.interactiveAuth));
+    } catch (error) {
+      entry.error = (error as Error).message;
+      return entry;
+    }
+
+    // Repositories without configuration are exported as an empty server set so
+    // that restoring the export also restores "no servers"
+    entry.hasConfig = !!config;
+    entry.file = `${repositoryName.replace('/', '__')}.json`;
+    await fs.writeJson(path.join(options.outDir, entry.file), config || { mcpServers: {} }, { spaces: 2, mode: 0o600 });
+    return entry;
+  }
+
+  /**
+   * Compare every repository's live configuration with what configure would
+   * produce, without changing anything.
+   */
+  async audit(options: ConfigurationOptions): Promise<AuditReport> {
+    this.spinner = ora('Starting audit...').start();
+
+    try {
+      if (options.verbose) {
+        Logger.setLevel('debug');
+      }
+
+      this.spinner.text = 'Parsing configuration files...';
+      const { repoConfig, profiles, secretsConfig } = await this.parseConfigurations(options);
+      const mergeStrategy = this.determineMergeStrategy(options);
+      this.mergeOptions = { precedence: options.mergePrecedence, prune: options.prune };
+      this.strict = !!options.strict;
+
+      this.spinner.text = 'Discovering repositories...';
+      const repositories = this.selectConfigurable(await this.discoverRepositories(repoConfig, options), profiles);
+      this.spinner.succeed(`Found ${repositories.length} repositories to audit`);
+
+      await this.initializeAutomators(options);
+
+      const results: AuditResult[] = [];
+      for (const repo of repositories) {
+        this.spinner.start(`Auditing ${repo.fullName}...`);
+        const result: AuditResult = { repository: repo.fullName, findings: [] };
+
+        try {
+          const liveConfig = await this.readLiveConfig(repo.fullName, options.apiOnly, options.interactiveAuth);
+          const desiredConfig = this.desiredConfigFor(repo, profiles);
+          const expectedConfig = this.apiAutomator.mergeMCPConfig(liveConfig, desiredConfig, mergeStrategy, this.mergeOptions);
+          result.findings.push(...DriftDetector.compareConfigs(liveConfig, expectedConfig));
+
+          if (secretsConfig) {
+            result.findings.push(...await this.auditSecrets(repo.fullName, secretsConfig));
+          }
+        } catch (error) {
+          result.error = (error as Error).toString();
+        }
+
+        this.spinner.stop();
+        this.displayAuditResult(result);
+        results.push(result);
+      }
+
+      await this.apiAutomator.cleanup();
+      await this.browserAutomator.cleanup();
+
+      const drifted = results.filter(result => result.findings.length > 0).length;
+      const unreadable = results.filter(result => result.error).length;
+      console.log(chalk.cyan(`\n📊 Audit: ${drifted} repos drifted, ${results.length - drifted - unreadable} in sync, ${unreadable} unreadable`));
+
+      const report: AuditReport = {
+        auditedAt: new Date().toISOString(),
+        mergeStrategy,
+        repositories: results
+      };
+      Logger.info('Audit completed', { drifted, unreadable, total: results.length });
+      return report;
+    } catch (error) {
+      this.spinner?.fail('Audit failed');
+      Logger.error('Audit failed', { error: (error as Error).toString() });
+      throw error;
+    }
+  }
+
+  /**
+   * Compare the repository-level and environment secrets and variables of the
+   * secrets file with the ones a repository has.
+   */
+  private async auditSecrets(repositoryName: string, secretsConfig: SecretsConfig): Promise<DriftFinding[]> {
+    const github = await this.github();
+    const findings: DriftFinding[] = [];
+    for (const { values, environment } of this.secretScopes(secretsConfig)) {
+      if (!environment) {
+        const existingSecrets = await github.listRepositorySecrets(repositoryName);
+        const existingVariables = await github.listRepositoryVariables(repositoryName);
+        findings.push(...DriftDetector.compareSecrets(values, existingSecrets, existingVariables));
+      } else if (Object.keys(values.secrets || {}).length > 0 || Object.keys(values.variables || {}).length > 0) {
+        if (!await github.hasEnvironment(repositoryName, environment)) {
+          findings.push({ kind: 'missing-environment', name: environment, environment, message: `Environment ${environment} is missing` });
+          continue;
+        }
+        const existingSecrets = await github.listEnvironmentSecrets(repositoryName, environment);
+        const existingVariables = await github.listEnvironmentVariables(repositoryName, environment);
+        findings.push(...DriftDetector.compareSecrets(values, existingSecrets, existingVariables, environment));
+      }
+    }
+    return findings;
+  }
+
+  private displayAuditResult(result: AuditResult): void {
+    if (result.error) {
+      console.log(chalk.red(`\n📁 ${result.repository}: unable to audit (${result.error})`));
+      return;
+    }
+
+    if (result.findings.length === 0) {
+      console.log(chalk.green(`\n📁 ${result.repository}: in sync`));
+      return;
+    }
+
+    console.log(chalk.yellow(`\n📁 ${result.repository}: ${result.findings.length} differences`));
+    for (const finding of result.findings) {
+      const detail = finding.kind === 'server-mismatch' || finding.kind === 'variable-mismatch'
+        ? chalk.gray(` (expected ${JSON.stringify(finding.expected)}, found ${JSON.stringify(finding.actual)})`)
+        : '';
+      console.log(`  • ${finding.message}${detail}`);
+    }
+  }
+
+  private async parseConfigurations(options: ConfigurationOptions): Promise<{
+    repoConfig: RepoConfig;
+    profiles: ProfileResolver;
+    secretsConfig?: SecretsConfig;
+  }> {
+    const repoConfig = await ConfigParser.parseRepoConfig(options.repoConfig);
+    const mcpConfigFiles = ([] as string[]).concat(options.mcpConfig || []);
+    const mcpConfig = mcpConfigFiles.length > 0 ? await ConfigParser.parseMCPConfigs(mcpConfigFiles) : undefined;
+    const profiles = await ProfileResolver.load(repoConfig, options.repoConfig, mcpConfig);
+
+    if (!mcpConfig && !profiles.hasProfiles) {
+      throw new Error('No MCP configuration given: pass --mcp-config or define profiles in the repository config');
+    }
+
+    let secretsConfig: SecretsConfig | undefined;
+    if (options.secretsConfig) {
+      secretsConfig = await ConfigParser.parseSecretsConfig(options.secretsConfig);
+      secretsConfig = await ConfigParser.processSecretsConfig(secretsConfig, {
+        strict: options.strict,
+        envFiles: options.envFiles,
+        baseDir: path.dirname(options.secretsConfig)
+      });
+    }
+
+    return { repoConfig, profiles, secretsConfig };
+  }
+
+  private async initializeAutomators(
+    options: APIAutomatorOptions & { apiOnly: boolean; debug: boolean; interactiveAuth: boolean }
+  ): Promise<void> {
+    // Initialize API automator first (faster and less resource intensive)
+    await this.apiAutomator.initialize({ stateDir: options.stateDir, allowGuessedWrites: options.allowGuessedWrites });
+    
+    // Only initialize browser automation if not in API-only mode
+    if (!options.apiOnly) {
+      this.browserAutomator = new BrowserAutomator(options.debug, options.interactiveAuth);
+      await this.browserAutomator.initialize();
+      await this.browserAutomator.authenticateWithGitHub();
+    }
+  }
+
+  private async ensureBrowserAuthenticated(repositoryName: string, interactiveAuth: boolean): Promise<void> {
+    // Ensure browser automation is initialized and authenticated for fallback
+    // This handles edge cases where initial authentication may have failed or expired
+    if (!this.browserAutomator.authenticationStatus) {
+      if (interactiveAuth) {
+        console.log(chalk.yellow(`\n🔄 Repository ${repositoryName} requires interactive authentication`));
+        
+        // Re-initialize browser automation with interactive auth
+        await this.browserAutomator.cleanup();
+        this.browserAutomator = new BrowserAutomator(false, true); // Not debug mode, but interactive auth
+        await this.browserAutomator.initialize();
+        await this.browserAutomator.authenticateWithGitHub();
+      } else {
+        throw new Error(`Browser authentication required but not available for ${repositoryName}`);
+      }
+    }
+  }
+
+  /**
+   * Read a repository's live MCP configuration via the API, falling back to
+   * browser automation unless running API-only. The API's "no configuration"
+   * is only trusted from an endpoint probe-api recorded, as with export.
+   */
+  private async readLiveConfig(repositoryName: string, apiOnly: boolean, interactiveAuth: boolean): Promise<MCPConfig | null> {
+    return (await this.readLiveConfigWithSource(repositoryName, apiOnly, interactiveAuth)).config;
+  }
+
+  /**
+   * readLiveConfig, also telling whether the API or the browser answered.
+   */
+  private async readLiveConfigWithSource(
+    repositoryName: string,
+    apiOnly: boolean,
+    interactiveAuth: boolean
+  ): Promise<{ config: MCPConfig | null; source: 'api' | 'browser' }> {
+    let apiError: unknown;
+    try {
+      const config = await this.apiAutomator.readMCPConfig(repositoryName);
+      if (config || this.apiAutomator.hasRecordedRead) {
+        return { config, source: 'api' };
+      }
+      apiError = new Error(UNTRUSTED_EMPTY_READ);
+    } catch (error) {
+      apiError = error;
+    }
+
+    if (apiOnly) {
+      throw new Error(`API-only mode enabled but API read failed: ${apiError}`);
+    }
+    Logger.warn(`API read failed for ${repositoryName}, falling back to browser automation: ${apiError}`);
+    try {
+      await this.ensureBrowserAuthenticated(repositoryName, interactiveAuth);
+      return { config: await this.browserAutomator.readMCPConfig(repositoryName), source: 'browser' };
+    } catch (browserError) {
+      throw new Error(`API: ${apiError}; Browser: ${browserError}`);
+    }
+  }
+
+  private async writeLiveConfig(
+    repositoryName: string,
+    config: MCPConfig,
+    apiOnly: boolean,
+    interactiveAuth: boolean
+  ): Promise<void> {
+    try {
+      await this.apiAutomator.updateMCPConfig(repositoryName, config);
+    } catch (apiError) {
+      if (apiOnly) {
+        throw new Error(`API-only mode enabled but API configuration failed: ${apiError}`);
+      }
+      Logger.warn(`API update failed for ${repositoryName}, falling back to browser automation: ${apiError}`);
+      await this.ensureBrowserAuthenticated(repositoryName, interactiveAuth);
+      await this.browserAutomator.updateMCPConfig(repositoryName, config);
+    }
+  }
+
+  private async applyRepositoryPlan(
+    repoPlan: RepositoryPlan,
+    secretsConfig: SecretsConfig | undefined,
+    apiOnly: boolean,
+    interactiveAuth: boolean
+  ): Promise<OperationResult> {
+    const startTime = Date.now();
+    const repositoryName = repoPlan.repository;
+    const result: OperationResult = {
+      repository: repositoryName,
+      success: false,
+      changes: {},
+      duration: 0
+    };
+
+    try {
+      if (repoPlan.mcpConfig?.willChange) {
+        const liveConfig = await this.readLiveConfig(repositoryName, apiOnly, interactiveAuth);
+        if (PlanFile.fingerprint(liveConfig) !== repoPlan.fingerprint) {
+          throw new Error('Live MCP configuration has changed since the plan was created; re-run plan');
+        }
+
+        await this.writeLiveConfig(repositoryName, repoPlan.mcpConfig.after, apiOnly, interactiveAuth);
+        result.changes.mcpConfig = {
+          before: repoPlan.mcpConfig.before,
+          after: repoPlan.mcpConfig.after,
+          strategy: repoPlan.mcpConfig.strategy
+        };
+      }
+
+      const plannedSecrets: SecretsConfig = { secrets: {}, variables: {} };
+      const scopeOf = (environment?: string): SecretsConfig => environment
+        ? plannedSecrets.environment ??= { name: environment, secrets: {}, variables: {} }
+        : plannedSecrets;
+      const isSet = (item: PlannedAction) => item.action !== 'remove';
+      for (const secret of repoPlan.secrets.filter(isSet)) {
+        const value = (secret.environment ? secretsConfig?.environment?.secrets : secretsConfig?.secrets)?.[secret.name];
+        if (value === undefined) {
+          throw new Error(`Planned secret ${secret.name} is not defined in the secrets file`);
+        }
+        scopeOf(secret.environment).secrets![secret.name] = value;
+      }
+      for (const variable of repoPlan.variables.filter(isSet)) {
+        scopeOf(variable.environment).variables![variable.name] = variable.value || '';
+      }
+      // Only the values the plan listed are removed, whatever has become prunable since
+      await this.applySecrets(repositoryName, plannedSecrets, result, {
+        secrets: repoPlan.secrets.filter(item => !isSet(item)),
+        variables: repoPlan.variables.filter(item => !isSet(item))
+      });
+
+      result.success = true;
+      Logger.info(`Applied plan to repository: ${repositoryName}`);
+    } catch (error) {
+      result.error = (error as Error).toString();
+      Logger.error(`Failed to apply plan to ${repositoryName}: ${error}`);
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
   private determineMergeStrategy(options: ConfigurationOptions): MergeStrategy {
     if (options.forceOverwrite) {
       return MergeStrategy.FORCE_OVERWRITE;
     }
+    if (options.deepMerge) {
+      return MergeStrategy.DEEP_MERGE;
+    }
     if (options.merge && options.mergeOverwrite) {
       return MergeStrategy.MERGE_OVERWRITE;
     }
@@ -127,92 +815,298 @@ export class ConfigurationEngine {
     return MergeStrategy.SKIP;
   }
 
-  private async discoverRepositories(repoConfig: any): Promise<Repository[]> {
-    if (repoConfig.repositories) {
-      return await GitHubCLI.getRepositoriesFromList(repoConfig.repositories);
-    } else if (repoConfig.all_accessible_repos) {
-      return await GitHubCLI.listUserRepositories(repoConfig.filters);
-    } else {
-      throw new Error('Invalid repository configuration');
+  /**
+   * The MCP configuration a repository should receive: --mcp-config plus its
+   * profiles, with templates rendered for that repository.
+   */
+  private desiredConfigFor(repository: Repository, profiles: ProfileResolver): MCPConfig {
+    const mcpConfig = profiles.resolve(repository);
+    if (!mcpConfig) {
+      throw new Error(`No MCP configuration or profile applies to ${repository.fullName}`);
     }
+    return ConfigParser.renderMCPConfig(mcpConfig, repository, this.strict);
   }
 
-  private async displayDryRunPreview(
-    repositories: Repository[],
-    mcpConfig: MCPConfig,
-    secretsConfig: SecretsConfig | undefined,
-    mergeStrategy: MergeStrategy
-  ): Promise<void> {
-    console.log(chalk.cyan('📋 Configuration Preview\n'));
-    
-    console.log(chalk.white(`Repositories to configure (${repositories.length}):`));
-    repositories.forEach(repo => {
-      console.log(`  • ${repo.fullName}`);
-    });
+  /**
+   * Render every repository's MCP configuration before anything is changed,
+   * so a value strict mode cannot resolve stops the whole run.
+   */
+  private assertRenderable(repositories: Repository[], profiles: ProfileResolver): void {
+    const failures = new Set<string>();
+    for (const repo of repositories) {
+      try {
+        this.desiredConfigFor(repo, profiles);
+      } catch (error) {
+        failures.add((error as Error).message);
+      }
+    }
 
-    console.log(chalk.white('\nMCP servers to configure:'));
-    Object.entries(mcpConfig.mcpServers).forEach(([name, config]) => {
-      console.log(`  • ${name} (type: ${config.type})`);
+    if (failures.size > 0) {
+      throw new Error(`Could not render the MCP configuration:\n  ${[...failures].join('\n  ')}`);
+    }
+  }
+
+  /**
+   * Drop repositories that no profile applies to when there is no --mcp-config
+   * to fall back on.
+   */
+  private selectConfigurable(repositories: Repository[], profiles: ProfileResolver): Repository[] {
+    return repositories.filter(repo => {
+      if (profiles.resolve(repo)) {
+        return true;
+      }
+      Logger.warn(`Skipping ${repo.fullName}: no MCP profile applies to it`);
+      return false;
     });
+  }
 
-    if (secretsConfig?.secrets) {
-      console.log(chalk.white('\nSecrets to configure:'));
-      Object.keys(secretsConfig.secrets).forEach(name => {
-        console.log(`  • ${name}`);
-      });
+  private async discoverRepositories(repoConfig: RepoConfig, options: DiscoveryOptions): Promise<Repository[]> {
+    const { repositories, excluded, cachedAt } = await RepositoryDiscovery.discover(repoConfig, options);
+    if (cachedAt) {
+      console.log(chalk.gray(`\nUsing repositories discovered at ${cachedAt} (use --refresh to fetch them again)`));
     }
-
-    if (secretsConfig?.variables) {
-      console.log(chalk.white('\nVariables to configure:'));
-      Object.entries(secretsConfig.variables).forEach(([name, value]) => {
-        console.log(`  • ${name}: ${value}`);
-      });
+    for (const { repository, reason } of excluded) {
+      Logger.info(`Excluding ${repository}: ${reason}`);
     }
-
-    console.log(chalk.white(`\nMerge strategy: ${mergeStrategy}`));
-    console.log(chalk.yellow('\nRun without --dry-run to apply these changes.'));
+    if (excluded.length > 0) {
+      console.log(chalk.gray(`\n${excluded.length} repositories excluded by repos.yaml (run list-repos to see why)`));
+    }
+    return repositories;
   }
 
-  private async processRepositories(
+  /**
+   * Read every repository's current configuration and compute what the merge
+   * strategy would turn it into, without changing anything.
+   */
+  private async buildRepositoryPlans(
     repositories: Repository[],
-    mcpConfig: MCPConfig,
+    profiles: ProfileResolver,
     secretsConfig: SecretsConfig | undefined,
     mergeStrategy: MergeStrategy,
-    concurrency: number,
     apiOnly: boolean,
     interactiveAuth: boolean
+  ): Promise<RepositoryPlan[]> {
+    const plans: RepositoryPlan[] = [];
+    for (const repo of repositories) {
+      this.spinner.start(`Reading current configuration for ${repo.fullName}...`);
+      let existingConfig: MCPConfig | null;
+      let values: Pick<RepositoryPlan, 'secrets' | 'variables'>;
+      try {
+        existingConfig = await this.readLiveConfig(repo.fullName, apiOnly, interactiveAuth);
+        values = await this.planValues(repo.fullName, secretsConfig);
+      } catch (error) {
+        plans.push({
+          repository: repo.fullName,
+          fingerprint: '',
+          readError: (error as Error).toString(),
+          secrets: [],
+          variables: []
+        });
+        continue;
+      } finally {
+        this.spinner.stop();
+      }
+
+      const desiredConfig = this.desiredConfigFor(repo, profiles);
+      const finalConfig = this.apiAutomator.mergeMCPConfig(existingConfig, desiredConfig, mergeStrategy, this.mergeOptions);
+      plans.push({
+        repository: repo.fullName,
+        fingerprint: PlanFile.fingerprint(existingConfig),
+        mcpConfig: {
+          before: existingConfig,
+          after: finalConfig,
+          strategy: mergeStrategy,
+          changes: ConfigDiff.classifyServers(existingConfig, finalConfig, desiredConfig),
+          willChange: !existingConfig || !ConfigDiff.isEqual(existingConfig, finalConfig)
+        },
+        ...values
+      });
+    }
+
+    return plans;
+  }
+
+  /**
+   * Compare the secrets file with a repository's current secrets and
+   * variables the way applySecrets will, so each is planned as added,
+   * updated or unchanged.
+   */
+  private async planValues(repositoryName: string, secretsConfig: SecretsConfig | undefined): Promise<Pick<RepositoryPlan, 'secrets' | 'variables'>> {
+    const planned: Pick<RepositoryPlan, 'secrets' | 'variables'> = { secrets: [], variables: [] };
+    for (const { label, values, environment } of await this.scopesToSync(repositoryName, secretsConfig)) {
+      const secrets = Object.keys(values.secrets || {});
+      const variables = Object.entries(values.variables || {});
+      const prunable = await this.prunableValues(repositoryName, label, values);
+      if (secrets.length + variables.length + prunable.secrets.length + prunable.variables.length === 0) {
+        continue;
+      }
+
+      const github = await this.github();
+      const client = this.scopeClient(github, repositoryName, environment);
+      let existingSecrets: string[] = [];
+      let existingVariables: Record<string, string> = {};
+      // A missing environment is created when applying, so all of its values are added
+      if (!environment || await github.hasEnvironment(repositoryName, environment)) {
+        existingSecrets = secrets.length + prunable.secrets.length > 0 ? await client.listSecrets() : [];
+        existingVariables = variables.length + prunable.variables.length > 0 ? await client.listVariables() : {};
+      }
+
+      planned.secrets.push(...secrets.map((name): PlannedAction => ({
+        name,
+        action: existingSecrets.includes(name) ? 'update' : 'add',
+        environment
+      })));
+      planned.variables.push(...variables.map(([name, value]): PlannedAction => ({
+        name,
+        action: !(name in existingVariables) ? 'add' : existingVariables[name] === value ? 'unchanged' : 'update',
+        value,
+        environment
+      })));
+      planned.secrets.push(...prunable.secrets.filter(name => existingSecrets.includes(name))
+        .map((name): PlannedAction => ({ name, action: 'remove', environment })));
+      planned.variables.push(...prunable.variables.filter(name => name in existingVariables)
+        .map((name): PlannedAction => ({ name, action: 'remove', environment })));
+    }
+    return planned;
+  }
+
+  private valuesChange(repoPlan: RepositoryPlan): boolean {
+    return [...repoPlan.secrets, ...repoPlan.variables].some(item => item.action !== 'unchanged');
+  }
+
+  private displayPlan(plans: RepositoryPlan[], mergeStrategy: MergeStrategy): void {
+    console.log(chalk.cyan('📋 Configuration Plan\n'));
+    console.log(chalk.white(`Merge strategy: ${mergeStrategy}`));
+
+    let changing = 0;
+    let unchanged = 0;
+    let unreadable = 0;
+
+    for (const repoPlan of plans) {
+      if (repoPlan.readError || !repoPlan.mcpConfig) {
+        unreadable++;
+        console.log(chalk.red(`\n📁 ${repoPlan.repository}: unable to read current configuration (${repoPlan.readError})`));
+        continue;
+      }
+
+      const { before, after, changes, willChange } = repoPlan.mcpConfig;
+      if (!willChange && !this.valuesChange(repoPlan)) {
+        unchanged++;
+        console.log(chalk.gray(`\n📁 ${repoPlan.repository}: no changes`));
+        continue;
+      }
+
+      changing++;
+      console.log(chalk.white(`\n📁 ${repoPlan.repository}${before ? '' : ' (no existing configuration)'}`));
+      if (willChange) {
+        this.displayServerChanges(changes);
+        console.log(ConfigDiff.formatJSONDiff(before, after));
+      }
+      this.displayPlannedValues(repoPlan);
+    }
+
+    console.log(chalk.cyan(`\n📊 Plan: ${changing} repos change, ${unchanged} unchanged, ${unreadable} unreadable`));
+  }
+
+  private displayPlannedValues(repoPlan: RepositoryPlan): void {
+    const kinds: Array<[string, PlannedAction[]]> = [['Secrets', repoPlan.secrets], ['Variables', repoPlan.variables]];
+    const groups: Array<[PlannedAction['action'], string, (text: string) => string]> = [
+      ['add', '+ added', chalk.green],
+      ['update', '~ updated', chalk.yellow],
+      ['unchanged', '= unchanged', chalk.gray],
+      ['remove', '- removed', chalk.red]
+    ];
+
+    for (const [kind, actions] of kinds) {
+      const environments = [...new Set(actions.map(item => item.environment))];
+      for (const environment of environments) {
+        const scoped = actions.filter(item => item.environment === environment);
+        console.log(chalk.white(`  ${kind} (${this.scopeLabel(environment)}):`));
+        for (const [action, label, color] of groups) {
+          const names = scoped.filter(item => item.action === action)
+            .map(item => item.value === undefined ? item.name : `${item.name}=${Redactor.redactValue(item.value, item.name)}`);
+          if (names.length > 0) {
+            console.log(color(`    ${label}: ${names.join(', ')}`));
+          }
+        }
+      }
+    }
+  }
+
+  private displayServerChanges(changes: ServerChangeSet): void {
+    const groups: Array<[string, string[], (text: string) => string]> = [
+      ['+ added', changes.added, chalk.green],
+      ['~ replaced', changes.replaced, chalk.yellow],
+      ['- removed', changes.removed, chalk.red],
+      ['= unchanged', changes.unchanged, chalk.gray],
+      ['= left alone', changes.leftAlone, chalk.gray],
+      ['! skipped', changes.skipped, chalk.magenta]
+    ];
+
+    for (const [label, names, color] of groups) {
+      if (names.length > 0) {
+        console.log(color(`  ${label}: ${names.join(', ')}`));
+      }
+    }
+  }
+
+  private async processRepositories<T>(
+    items: T[],
+    nameOf: (item: T) => string,
+    concurrency: number,
+    worker: (item: T) => Promise<OperationResult>,
+    onResult?: (result: OperationResult) => Promise<void>,
+    continueOnError = true
   ): Promise<OperationResult[]> {
     const results: OperationResult[] = [];
-    const total = repositories.length;
+    const total = items.length;
     let processed = 0;
 
     this.spinner.text = `Processing repositories (0/${total})...`;
 
-    // Process repositories in batches based on concurrency setting
-    for (let i = 0; i < repositories.length; i += concurrency) {
-      const batch = repositories.slice(i, i + concurrency);
-      const batchPromises = batch.map(repo => ({ repo, promise: this.processRepository(repo, mcpConfig, secretsConfig, mergeStrategy, apiOnly, interactiveAuth) }));
-      
-      const batchResults = await Promise.allSettled(batchPromises.map(item => item.promise));
+    // Process repositories in batches based on concurrency setting, smaller
+    // while GitHub is rate limiting requests
+    let batchSize = concurrency;
+    for (let i = 0; i < items.length; i += batchSize) {
+      const size = GitHubHttp.shared.effectiveConcurrency(concurrency);
+      if (size !== batchSize) {
+        Logger.warn(size < batchSize
+          ? `Rate limited: processing ${size} repositories at a time`
+          : `Rate limits eased: processing ${size} repositories at a time`);
+        batchSize = size;
+      }
+      const batch = items.slice(i, i + batchSize);
+      const batchPromises = batch.map(item =>
+        worker(item)
+          .catch((error): OperationResult => {
+            Logger.error(`Repository processing failed for ${nameOf(item)}: ${error}`);
+            return {
+              repository: nameOf(item), // Use the actual repository name
+              success: false,
+              changes: {},
+              error: error.toString(),
+              duration: 0
+            };
+          })
+          .then(async result => {
+            // Persist each result as soon as it is known so an interrupted run can resume
+            if (onResult) {
+              await onResult(result);
+            }
+            processed++;
+            this.spinner.text = `Processing repositories (${processed}/${total})...`;
+            return result;
+          })
+      );
       
-      for (let j = 0; j < batchResults.length; j++) {
-        const result = batchResults[j];
-        const repo = batch[j];
-        processed++;
-        this.spinner.text = `Processing repositories (${processed}/${total})...`;
-        
-        if (result.status === 'fulfilled') {
-          results.push(result.value);
-        } else {
-          Logger.error(`Repository processing failed for ${repo.fullName}: ${result.reason}`);
-          results.push({
-            repository: repo.fullName, // Use the actual repository name
-            success: false,
-            changes: {},
-            error: result.reason.toString(),
-            duration: 0
-          });
-        }
+      const batchResults = await Promise.all(batchPromises);
+      results.push(...batchResults);
+
+      const remaining = items.length - (i + batch.length);
+      if (!continueOnError && remaining > 0 && batchResults.some(result => !result.success)) {
+        Logger.warn(`Stopping after a failure with ${remaining} repositories left unprocessed`);
+        this.spinner.warn(`Stopped after a failure: ${remaining} repositories were not processed (continue with --resume)`);
+        return results;
       }
     }
 
@@ -222,7 +1116,7 @@ export class ConfigurationEngine {
 
   private async processRepository(
     repository: Repository,
-    mcpConfig: MCPConfig,
+    profiles: ProfileResolver,
     secretsConfig: SecretsConfig | undefined,
     mergeStrategy: MergeStrategy,
     apiOnly: boolean,
@@ -238,6 +1132,7 @@ export class ConfigurationEngine {
 
     try {
       Logger.info(`Processing repository: ${repository.fullName}`);
+      const desiredConfig = this.desiredConfigFor(repository, profiles);
 
       // Configure MCP settings - try API first, fallback to browser automation
       let mcpResult;
@@ -246,9 +1141,13 @@ export class ConfigurationEngine {
         
         // Try to read existing config via API
         const existingConfig = await this.apiAutomator.readMCPConfig(repository.fullName);
+        if (!existingConfig && !this.apiAutomator.hasRecordedRead) {
+          // Writing over a configuration the API could not see would wipe it
+          throw new Error(UNTRUSTED_EMPTY_READ);
+        }
         
         // Apply merge strategy
-        const finalConfig = this.apiAutomator.mergeMCPConfig(existingConfig, mcpConfig, mergeStrategy);
+        const finalConfig = this.apiAutomator.mergeMCPConfig(existingConfig, desiredConfig, mergeStrategy, this.mergeOptions);
         
         // Skip update if configuration would be identical
         if (existingConfig && JSON.stringify(existingConfig) === JSON.stringify(finalConfig)) {
@@ -276,28 +1175,14 @@ export class ConfigurationEngine {
         }
         
         Logger.info(`Falling back to browser automation for ${repository.fullName}`);
-        
-        // Ensure browser automation is initialized and authenticated for fallback
-        // This handles edge cases where initial authentication may have failed or expired
-        if (!this.browserAutomator.authenticationStatus) {
-          if (interactiveAuth) {
-            console.log(chalk.yellow(`\n🔄 Repository ${repository.fullName} requires interactive authentication`));
-            
-            // Re-initialize browser automation with interactive auth
-            await this.browserAutomator.cleanup();
-            this.browserAutomator = new BrowserAutomator(false, true); // Not debug mode, but interactive auth
-            await this.browserAutomator.initialize();
-            await this.browserAutomator.authenticateWithGitHub();
-          } else {
-            throw new Error(`Browser authentication required but not available for ${repository.fullName}`);
-          }
-        }
+        await this.ensureBrowserAuthenticated(repository.fullName, interactiveAuth);
         
         // Fallback to browser automation
         mcpResult = await this.browserAutomator.configureRepository(
           repository.fullName,
-          mcpConfig,
-          mergeStrategy
+          desiredConfig,
+          mergeStrategy,
+          this.mergeOptions
         );
       }
       
@@ -305,23 +1190,7 @@ export class ConfigurationEngine {
 
       // Configure secrets and variables if provided
       if (secretsConfig) {
-        if (secretsConfig.secrets) {
-          const secretsAdded: string[] = [];
-          for (const [name, value] of Object.entries(secretsConfig.secrets)) {
-            await GitHubCLI.setRepositorySecret(repository.fullName, name, value);
-            secretsAdded.push(name);
-          }
-          result.changes.secrets = { added: secretsAdded, updated: [] };
-        }
-
-        if (secretsConfig.variables) {
-          const variablesAdded: string[] = [];
-          for (const [name, value] of Object.entries(secretsConfig.variables)) {
-            await GitHubCLI.setRepositoryVariable(repository.fullName, name, value);
-            variablesAdded.push(name);
-          }
-          result.changes.variables = { added: variablesAdded, updated: [] };
-        }
+        await this.applySecrets(repository.fullName, secretsConfig, result);
       }
 
       result.success = true;
@@ -336,9 +1205,232 @@ export class ConfigurationEngine {
     return result;
   }
 
-  private createSummary(results: OperationResult[], startTime: number): OperationSummary {
+  private github(): Promise<GitHubClient> {
+    if (!this.githubClient) {
+      this.githubClient = GitHubClient.create();
+    }
+    return this.githubClient;
+  }
+
+  /**
+   * Set a repository's secrets and variables, creating the environment when
+   * it has values. A plan passes the values it lists for removal; otherwise,
+   * with pruneSecrets, whatever is prunable now is removed.
+   */
+  private async applySecrets(
+    repositoryName: string,
+    secretsConfig: SecretsConfig,
+    result: OperationResult,
+    removals?: Pick<RepositoryPlan, 'secrets' | 'variables'>
+  ): Promise<void> {
+    const github = await this.github();
+    for (const { label, values, environment } of await this.scopesToSync(repositoryName, secretsConfig, removals)) {
+      const prune = removals && {
+        secrets: removals.secrets.filter(item => item.environment === environment).map(item => item.name),
+        variables: removals.variables.filter(item => item.environment === environment).map(item => item.name)
+      };
+      if (!environment) {
+        Object.assign(result.changes, await this.syncValues(repositoryName, label, values, this.scopeClient(github, repositoryName), prune));
+        continue;
+      }
+
+      const hasValues = Object.keys(values.secrets || {}).length > 0 || Object.keys(values.variables || {}).length > 0;
+      // An environment deleted since has nothing left to prune
+      if (!hasValues && !await github.hasEnvironment(repositoryName, environment)) {
+        continue;
+      }
+      const created = hasValues && await github.ensureEnvironment(repositoryName, environment);
+      const changes = await this.syncValues(repositoryName, label, values, this.scopeClient(github, repositoryName, environment), prune);
+      if (environment === secretsConfig.environment?.name) {
+        if (hasValues || changes.secrets || changes.variables) {
+          result.changes.environment = { name: environment, created, ...changes };
+        }
+      } else if (changes.secrets || changes.variables) {
+        (result.changes.prunedEnvironments ??= []).push({ name: environment, ...changes });
+      }
+    }
+  }
+
+  private scopeClient(github: GitHubClient, repositoryName: string, environment?: string): ScopeClient {
+    if (!environment) {
+      return {
+        listSecrets: () => github.listRepositorySecrets(repositoryName),
+        listVariables: () => github.listRepositoryVariables(repositoryName),
+        setSecret: (name, value) => github.setRepositorySecret(repositoryName, name, value),
+        setVariable: (name, value) => github.setRepositoryVariable(repositoryName, name, value),
+        deleteSecret: name => github.deleteRepositorySecret(repositoryName, name),
+        deleteVariable: name => github.deleteRepositoryVariable(repositoryName, name)
+      };
+    }
+    return {
+      listSecrets: () => github.listEnvironmentSecrets(repositoryName, environment),
+      listVariables: () => github.listEnvironmentVariables(repositoryName, environment),
+      setSecret: (name, value) => github.setEnvironmentSecret(repositoryName, environment, name, value),
+      setVariable: (name, value) => github.setEnvironmentVariable(repositoryName, environment, name, value),
+      deleteSecret: name => github.deleteEnvironmentSecret(repositoryName, environment, name),
+      deleteVariable: name => github.deleteEnvironmentVariable(repositoryName, environment, name)
+    };
+  }
+
+  /**
+   * Bring one scope's secrets and variables in line with the secrets file.
+   * Secrets are always written since their values cannot be read back;
+   * variables are only written when their value differs. The given names,
+   * or else those prunableValues finds, are deleted if they still exist.
+   */
+  private async syncValues(
+    repositoryName: string,
+    scope: string,
+    values: SecretScope['values'],
+    client: ScopeClient,
+    prune?: ManagedNames
+  ): Promise<ValueChanges> {
+    const secrets = values.secrets || {};
+    const variables = values.variables || {};
+    const managed = await this.managedValues.get(repositoryName, scope);
+    const { secrets: prunableSecrets, variables: prunableVariables } = prune ?? await this.prunableValues(repositoryName, scope, values);
+    const changes: ValueChanges = {};
+    if (Object.keys(secrets).length > 0 || prunableSecrets.length > 0) {
+      const existing = new Set(await client.listSecrets());
+      const changeSet: ValueChangeSet = { added: [], updated: [], unchanged: [], removed: [] };
+      for (const [name, value] of Object.entries(secrets)) {
+        await client.setSecret(name, value);
+        (existing.has(name) ? changeSet.updated : changeSet.added).push(name);
+      }
+      for (const name of prunableSecrets.filter(name => existing.has(name))) {
+        await client.deleteSecret(name);
+        changeSet.removed.push(name);
+      }
+      // Names deleted outside this tool are no longer managed
+      managed.secrets = [...Object.keys(secrets), ...managed.secrets.filter(name => !(name in secrets) && existing.has(name) && !changeSet.removed.includes(name))];
+      changes.secrets = changeSet;
+    }
+
+    if (Object.keys(variables).length > 0 || prunableVariables.length > 0) {
+      const existing = await client.listVariables();
+      const changeSet: ValueChangeSet = { added: [], updated: [], unchanged: [], removed: [] };
+      for (const [name, value] of Object.entries(variables)) {
+        if (existing[name] === value) {
+          changeSet.unchanged.push(name);
+          continue;
+        }
+        await client.setVariable(name, value);
+        (name in existing ? changeSet.updated : changeSet.added).push(name);
+      }
+      for (const name of prunableVariables.filter(name => name in existing)) {
+        await client.deleteVariable(name);
+        changeSet.removed.push(name);
+      }
+      managed.variables = [...Object.keys(variables), ...managed.variables.filter(name => !(name in variables) && name in existing && !changeSet.removed.includes(name))];
+      changes.variables = changeSet;
+    }
+
+    if (changes.secrets || changes.variables) {
+      await this.managedValues.set(repositoryName, scope, managed);
+    }
+    return changes;
+  }
+
+  /**
+   * The managed names of a scope that the secrets file no longer defines,
+   * when pruning.
+   */
+  private async prunableValues(repositoryName: string, scope: string, values: SecretScope['values']): Promise<ManagedNames> {
+    if (!this.pruneSecrets) {
+      return { secrets: [], variables: [] };
+    }
+    const managed = await this.managedValues.get(repositoryName, scope);
+    return {
+      secrets: managed.secrets.filter(name => !(name in (values.secrets || {}))),
+      variables: managed.variables.filter(name => !(name in (values.variables || {})))
+    };
+  }
+
+  /**
+   * The scopes to sync in a repository: those of the secrets file, plus
+   * environments it no longer names that hold values to remove, either as
+   * listed by a plan or, when pruning, as recorded by ManagedValuesStore.
+   */
+  private async scopesToSync(
+    repositoryName: string,
+    secretsConfig: SecretsConfig | undefined,
+    removals?: Pick<RepositoryPlan, 'secrets' | 'variables'>
+  ): Promise<SecretScope[]> {
+    const scopes = this.secretScopes(secretsConfig);
+    const labels = removals
+      ? [...removals.secrets, ...removals.variables].map(item => this.scopeLabel(item.environment))
+      : this.pruneSecrets ? await this.managedValues.scopes(repositoryName) : [];
+    for (const label of new Set(labels)) {
+      if (label.startsWith(ENVIRONMENT_SCOPE) && !scopes.some(scope => scope.label === label)) {
+        scopes.push({ label, values: {}, environment: label.slice(ENVIRONMENT_SCOPE.length) });
+      }
+    }
+    return scopes;
+  }
+
+  private scopeLabel(environment?: string): string {
+    return environment ? `${ENVIRONMENT_SCOPE}${environment}` : 'repository';
+  }
+
+  /**
+   * The repository-level and environment secrets and variables of a secrets
+   * file, labelled with where they are set.
+   */
+  private secretScopes(secretsConfig: SecretsConfig | undefined): SecretScope[] {
+    const scopes: SecretScope[] = [];
+    if (secretsConfig) {
+      scopes.push({ label: 'repository', values: secretsConfig });
+    }
+    const environment = secretsConfig?.environment;
+    if (environment?.name) {
+      scopes.push({ label: this.scopeLabel(environment.name), values: environment, environment: environment.name });
+    }
+    return scopes;
+  }
+
+  private createSummary(results: OperationResult[], startTime: number, runId?: string): OperationSummary {
     const successful = results.filter(r => r.success).length;
     const failed = results.filter(r => !r.success).length;
+
+    const removedServers: Record<string, string[]> = {};
+    const secretScopes: NonNullable<OperationSummary['secretScopes']> = {};
+    const createdEnvironments: Record<string, string> = {};
+    const countValues = (label: string, changes: ValueChanges) => {
+      if (changes.secrets || changes.variables) {
+        const counts = secretScopes[label] ??= {
+          secrets: { added: 0, updated: 0, unchanged: 0, removed: 0 },
+          variables: { added: 0, updated: 0, unchanged: 0, removed: 0 }
+        };
+        for (const kind of ['secrets', 'variables'] as const) {
+          for (const outcome of ['added', 'updated', 'unchanged', 'removed'] as const) {
+            counts[kind][outcome] += changes[kind]?.[outcome].length || 0;
+          }
+        }
+      }
+    };
+
+    for (const result of results) {
+      const environment = result.changes.environment;
+      countValues('repository', result.changes);
+      if (environment) {
+        countValues(this.scopeLabel(environment.name), environment);
+        if (environment.created) {
+          createdEnvironments[result.repository] = environment.name;
+        }
+      }
+      for (const pruned of result.changes.prunedEnvironments ?? []) {
+        countValues(this.scopeLabel(pruned.name), pruned);
+      }
+
+      const mcpChange = result.changes.mcpConfig;
+      if (result.success && mcpChange?.before) {
+        const removed = Object.keys(mcpChange.before.mcpServers)
+          .filter(name => !(name in mcpChange.after.mcpServers));
+        if (removed.length > 0) {
+          removedServers[result.repository] = removed;
+        }
+      }
+    }
     
     return {
       totalRepositories: results.length,
@@ -348,10 +1440,15 @@ export class ConfigurationEngine {
       errors: results.filter(r => !r.success).map(r => ({
         repository: r.repository,
         error: r.error || 'Unknown error',
-        type: 'config' as const
+        type: r.error?.includes('RateLimitError') ? 'rate-limit' as const : 'config' as const
       })),
       duration: Date.now() - startTime,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
+      runId,
+      removedServers,
+      rateLimitWait: GitHubHttp.shared.stats.waitedMs - this.rateLimitWaitAtStart,
+      secretScopes,
+      createdEnvironments
     };
   }
 
@@ -362,12 +1459,56 @@ export class ConfigurationEngine {
     console.log(chalk.green(`✅ Successful: ${summary.successful}`));
     console.log(chalk.red(`❌ Failed: ${summary.failed}`));
     console.log(`⏱️  Duration: ${Math.round(summary.duration / 1000)}s`);
+    if (summary.rateLimitWait) {
+      console.log(chalk.yellow(`⏳ Waiting on GitHub rate limits: ${Math.round(summary.rateLimitWait / 1000)}s`));
+    }
+
+    const scopes = Object.entries(summary.secretScopes || {});
+    if (scopes.length > 0) {
+      const describe = (counts: ValueCounts) => Object.entries(counts)
+        .filter(([, count]) => count > 0)
+        .map(([outcome, count]) => `${count} ${outcome}`)
+        .join(', ') || 'none';
+      console.log(chalk.white('\n🔐 Secrets and variables:'));
+      scopes.forEach(([scope, counts]) => {
+        console.log(`  • ${scope}: secrets ${describe(counts.secrets)}; variables ${describe(counts.variables)}`);
+      });
+    }
+
+    const created = Object.entries(summary.createdEnvironments || {});
+    if (created.length > 0) {
+      console.log(chalk.white(`\n🌱 Environments created: ${created.length}`));
+      created.forEach(([repository, environment]) => {
+        console.log(`  • ${repository}: ${environment}`);
+      });
+    }
+
+    const removals = Object.entries(summary.removedServers || {});
+    if (removals.length > 0) {
+      const count = removals.reduce((total, [, names]) => total + names.length, 0);
+      console.log(chalk.yellow(`\n🗑️  Servers removed: ${count} across ${removals.length} repositories`));
+      removals.forEach(([repository, names]) => {
+        console.log(`  • ${repository}: ${names.join(', ')}`);
+      });
+    }
 
     if (summary.errors.length > 0) {
       console.log(chalk.red('\n❌ Errors:'));
       summary.errors.forEach(error => {
         console.log(`  • ${error.repository}: ${error.error}`);
       });
+
+      const rateLimited = summary.errors.filter(error => error.type === 'rate-limit').length;
+      if (rateLimited > 0) {
+        console.log(chalk.yellow(`\n${rateLimited} repositories failed because GitHub kept rate limiting requests, not because of their configuration.`));
+      }
+    }
+
+    if (summary.runId) {
+      console.log(`\n🗂️  Run ID: ${summary.runId}`);
+      if (summary.failed > 0) {
+        console.log(chalk.yellow('Re-run with --retry-failed to retry only the failed repositories.'));
+      }
     }
 
     Logger.info('Operation completed', summary);
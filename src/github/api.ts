@@ -1,17 +1,82 @@
-import { MCPConfig, MergeStrategy } from '../types';
+import {
+  APICapabilities,
+  APIEndpoint,
+  APIWriteEndpoint,
+  MCPConfig,
+  MCPPayloadShape,
+  MergeStrategy,
+  ProbeAttempt
+} from '../types';
 import { Logger } from '../utils/logger';
-import { GitHubCLI } from './cli';
+import { GitHubClient } from './client';
+import { GitHubHttp, RateLimitError } from './http';
+import { CAPABILITIES_FILE_VERSION, CapabilitiesFile } from './capabilities';
+import { ConfigMerger, MergeOptions } from '../config/merge';
+import { DEFAULT_STATE_DIR } from '../state/run-state';
+
+const API_URL = 'https://api.github.com';
+
+// Candidate endpoints for Copilot MCP settings; none is documented yet
+const ENDPOINT_PATHS = [
+  '/repos/{owner}/{repo}/copilot/mcp',
+  '/repos/{owner}/{repo}/copilot/servers',
+  '/repos/{owner}/{repo}/copilot/configuration',
+  '/repos/{owner}/{repo}/settings/copilot',
+  '/repos/{owner}/{repo}/settings/copilot/mcp',
+  '/repos/{owner}/{repo}/settings/copilot/coding-agent',
+  '/repos/{owner}/{repo}/settings/copilot/coding_agent'
+];
+
+const ACCEPT_HEADERS = [
+  'application/vnd.github.v3+json',
+  'application/vnd.github+json',
+  'application/vnd.github.preview+json',
+  'application/vnd.github.copilot-preview+json',
+  'application/vnd.github.mcp-preview+json',
+  'application/vnd.github.coding-agent-preview+json'
+];
+
+const PAYLOAD_SHAPES: MCPPayloadShape[] = ['mcpServers', 'servers', 'mcp', 'configuration'];
+
+export interface APIAutomatorOptions {
+  // Directory holding the capabilities file written by probe-api
+  stateDir?: string;
+  // Try every guessed endpoint for writes when no endpoint is recorded
+  allowGuessedWrites?: boolean;
+  // Don't load the capabilities file, as when probing to replace it
+  ignoreCapabilities?: boolean;
+}
 
 export class GitHubAPIAutomator {
   private authToken: string | null = null;
+  private capabilities: APICapabilities | null = null;
+  private allowGuessedWrites = false;
+  private warnedAboutGuessing = false;
 
-  async initialize(): Promise<void> {
+  async initialize(options: APIAutomatorOptions = {}): Promise<void> {
     try {
-      this.authToken = await GitHubCLI.getAuthToken();
+      this.authToken = await GitHubClient.resolveToken();
+      if (!options.ignoreCapabilities) {
+        this.capabilities = await CapabilitiesFile.read(CapabilitiesFile.pathFor(options.stateDir ?? DEFAULT_STATE_DIR));
+      }
+      this.allowGuessedWrites = !!options.allowGuessedWrites;
       Logger.info('GitHub API automator initialized');
     } catch (error) {
       throw new Error(`Failed to initialize GitHub API: ${error}`);
     }
+
+    if (this.capabilities) {
+      Logger.info(`Using MCP API capabilities probed on ${this.capabilities.repository} at ${this.capabilities.probedAt}`);
+    }
+  }
+
+  /**
+   * Whether readMCPConfig uses an endpoint recorded by probe-api. Without one,
+   * null only means that no guessed endpoint answered, not that the repository
+   * has no MCP configuration.
+   */
+  get hasRecordedRead(): boolean {
+    return !!this.capabilities?.read;
   }
 
   private async makeRequest(url: string, options: RequestInit = {}): Promise<Response> {
@@ -27,48 +92,79 @@ export class GitHubAPIAutomator {
       ...options.headers
     };
 
-    return fetch(url, {
+    return GitHubHttp.shared.fetch(url, {
       ...options,
       headers
     });
   }
 
+  /**
+   * Find which endpoint and Accept header serve a repository's MCP
+   * configuration, and how it is wrapped. Only GET requests are made; writes
+   * are assumed to use PUT with the same shape.
+   */
+  async probe(repositoryName: string): Promise<APICapabilities> {
+    const attempts: ProbeAttempt[] = [];
+    const capabilities: APICapabilities = {
+      version: CAPABILITIES_FILE_VERSION,
+      probedAt: new Date().toISOString(),
+      repository: repositoryName,
+      read: null,
+      write: null,
+      attempts
+    };
+
+    for (const endpointPath of ENDPOINT_PATHS) {
+      for (const accept of ACCEPT_HEADERS) {
+        const attempt: ProbeAttempt = { path: endpointPath, accept };
+        attempts.push(attempt);
+        try {
+          const response = await this.makeRequest(this.urlFor(endpointPath, repositoryName), {
+            method: 'GET',
+            headers: { 'Accept': accept }
+          });
+          attempt.status = response.status;
+          if (response.status !== 200) {
+            continue;
+          }
+
+          const shape = this.shapeOf(await response.json());
+          if (!shape) {
+            attempt.note = 'response is not an MCP configuration';
+            continue;
+          }
+
+          capabilities.read = { path: endpointPath, accept, shape };
+          capabilities.write = { path: endpointPath, accept, shape, method: 'PUT' };
+          return capabilities;
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            throw error;
+          }
+          attempt.note = `${error}`;
+        }
+      }
+    }
+
+    return capabilities;
+  }
+
   async readMCPConfig(repositoryName: string): Promise<MCPConfig | null> {
-    const [owner, repo] = repositoryName.split('/');
-    
-    // Try various potential endpoints for MCP configuration
-    const endpoints = [
-      // Most likely endpoint patterns for Copilot settings
-      `https://api.github.com/repos/${owner}/${repo}/copilot/mcp`,
-      `https://api.github.com/repos/${owner}/${repo}/copilot/servers`,
-      `https://api.github.com/repos/${owner}/${repo}/copilot/configuration`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot/mcp`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot/coding-agent`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot/coding_agent`,
-      
-      // Preview API endpoints (common pattern for new features)
-      `https://api.github.com/repos/${owner}/${repo}/copilot/mcp`,
-      `https://api.github.com/repos/${owner}/${repo}/copilot/servers`,
-      
-      // With preview headers that GitHub sometimes uses
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot`,
-    ];
-
-    const previewHeaders = [
-      'application/vnd.github.v3+json',
-      'application/vnd.github+json',
-      'application/vnd.github.preview+json',
-      'application/vnd.github.copilot-preview+json',
-      'application/vnd.github.mcp-preview+json',
-      'application/vnd.github.coding-agent-preview+json',
-    ];
-
-    for (const endpoint of endpoints) {
-      for (const acceptHeader of previewHeaders) {
+    if (this.capabilities) {
+      return this.readRecorded(repositoryName, this.capabilities.read);
+    }
+
+    if (!this.warnedAboutGuessing) {
+      Logger.warn('No MCP API capabilities recorded; trying every known endpoint. Run "copilot-config probe-api <repo>" to record the one that works.');
+      this.warnedAboutGuessing = true;
+    }
+
+    for (const endpointPath of ENDPOINT_PATHS) {
+      const endpoint = this.urlFor(endpointPath, repositoryName);
+      for (const acceptHeader of ACCEPT_HEADERS) {
         try {
           Logger.info(`Trying endpoint: ${endpoint} with Accept: ${acceptHeader}`);
-          
+
           const response = await this.makeRequest(endpoint, {
             method: 'GET',
             headers: {
@@ -81,23 +177,13 @@ export class GitHubAPIAutomator {
           if (response.status === 200) {
             const data = await response.json();
             Logger.info(`Found MCP config data: ${JSON.stringify(data, null, 2)}`);
-            
-            // Try to parse the response as MCP config
-            if (data && typeof data === 'object') {
-              const responseData = data as any;
-              if (responseData.mcpServers) {
-                return responseData as MCPConfig;
-              } else if (responseData.servers) {
-                return { mcpServers: responseData.servers } as MCPConfig;
-              } else if (responseData.mcp) {
-                return responseData.mcp as MCPConfig;
-              } else if (responseData.configuration) {
-                return responseData.configuration as MCPConfig;
-              } else {
-                // Log the response structure for debugging
-                Logger.info(`Unknown response structure: ${JSON.stringify(data, null, 2)}`);
-              }
+
+            const shape = this.shapeOf(data);
+            if (shape) {
+              return this.unwrap(data, shape);
             }
+            // Log the response structure for debugging
+            Logger.info(`Unknown response structure: ${JSON.stringify(data, null, 2)}`);
           } else if (response.status === 404) {
             // Not found, continue to next endpoint
             continue;
@@ -111,6 +197,9 @@ export class GitHubAPIAutomator {
             Logger.info(`Endpoint ${endpoint} returned ${response.status}: ${errorData}`);
           }
         } catch (error) {
+          if (error instanceof RateLimitError) {
+            throw error;
+          }
           Logger.warn(`Error trying endpoint ${endpoint}: ${error}`);
         }
       }
@@ -121,110 +210,58 @@ export class GitHubAPIAutomator {
   }
 
   async updateMCPConfig(repositoryName: string, newConfig: MCPConfig): Promise<void> {
-    const [owner, repo] = repositoryName.split('/');
-    
-    // Try various potential endpoints for updating MCP configuration
-    const endpoints = [
-      // Most likely endpoint patterns for Copilot settings
-      `https://api.github.com/repos/${owner}/${repo}/copilot/mcp`,
-      `https://api.github.com/repos/${owner}/${repo}/copilot/servers`,
-      `https://api.github.com/repos/${owner}/${repo}/copilot/configuration`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot/mcp`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot/coding-agent`,
-      `https://api.github.com/repos/${owner}/${repo}/settings/copilot/coding_agent`,
-    ];
-
-    const previewHeaders = [
-      'application/vnd.github.v3+json',
-      'application/vnd.github+json',
-      'application/vnd.github.preview+json',
-      'application/vnd.github.copilot-preview+json',
-      'application/vnd.github.mcp-preview+json',
-      'application/vnd.github.coding-agent-preview+json',
-    ];
-
-    // Try different payload formats
-    const payloads = [
-      newConfig,                           // Direct MCP config
-      { mcpServers: newConfig.mcpServers }, // Wrapped in mcpServers
-      { servers: newConfig.mcpServers },    // Wrapped in servers
-      { mcp: newConfig },                   // Wrapped in mcp
-      { configuration: newConfig },         // Wrapped in configuration
-    ];
-
-    for (const endpoint of endpoints) {
-      for (const acceptHeader of previewHeaders) {
-        for (const payload of payloads) {
-          try {
-            Logger.info(`Trying to update endpoint: ${endpoint} with Accept: ${acceptHeader}`);
-            
-            const response = await this.makeRequest(endpoint, {
-              method: 'PUT',
-              headers: {
-                'Accept': acceptHeader,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify(payload)
-            });
-
-            Logger.info(`Update response status: ${response.status} for ${endpoint}`);
-
-            if (response.status === 200 || response.status === 201 || response.status === 204) {
-              Logger.info(`Successfully updated MCP configuration for ${repositoryName} via ${endpoint}`);
-              return;
-            } else if (response.status === 404) {
-              // Not found, continue to next endpoint
-              continue;
-            } else if (response.status === 403) {
-              Logger.warn(`Access denied for ${endpoint}: ${response.status}`);
-              const errorData = await response.text();
-              Logger.warn(`Error details: ${errorData}`);
-            } else {
-              // Log other status codes for debugging
-              const errorData = await response.text();
-              Logger.info(`Update endpoint ${endpoint} returned ${response.status}: ${errorData}`);
-            }
-          } catch (error) {
-            Logger.warn(`Error updating endpoint ${endpoint}: ${error}`);
-          }
+    if (this.capabilities?.write) {
+      return this.writeRecorded(repositoryName, newConfig, this.capabilities.write);
+    }
 
-          // Also try PATCH method
-          try {
-            const response = await this.makeRequest(endpoint, {
-              method: 'PATCH',
-              headers: {
-                'Accept': acceptHeader,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify(payload)
-            });
-
-            if (response.status === 200 || response.status === 201 || response.status === 204) {
-              Logger.info(`Successfully updated MCP configuration for ${repositoryName} via PATCH ${endpoint}`);
-              return;
-            }
-          } catch (error) {
-            // Continue to next endpoint
-          }
+    if (!this.allowGuessedWrites) {
+      throw new Error(
+        this.capabilities
+          ? `probe-api found no MCP configuration API endpoint on ${this.capabilities.probedAt}`
+          : 'No MCP configuration API endpoint recorded; run "copilot-config probe-api <repo>" or pass --allow-guessed-writes'
+      );
+    }
+
+    Logger.warn(`Trying guessed MCP API endpoints to update ${repositoryName} (--allow-guessed-writes)`);
 
-          // Also try POST method
-          try {
-            const response = await this.makeRequest(endpoint, {
-              method: 'POST',
-              headers: {
-                'Accept': acceptHeader,
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify(payload)
-            });
-
-            if (response.status === 200 || response.status === 201 || response.status === 204) {
-              Logger.info(`Successfully updated MCP configuration for ${repositoryName} via POST ${endpoint}`);
-              return;
+    for (const endpointPath of ENDPOINT_PATHS) {
+      const endpoint = this.urlFor(endpointPath, repositoryName);
+      for (const acceptHeader of ACCEPT_HEADERS) {
+        for (const shape of PAYLOAD_SHAPES) {
+          for (const method of ['PUT', 'PATCH', 'POST']) {
+            try {
+              Logger.info(`Trying to update endpoint: ${method} ${endpoint} with Accept: ${acceptHeader}`);
+
+              const response = await this.makeRequest(endpoint, {
+                method,
+                headers: {
+                  'Accept': acceptHeader,
+                  'Content-Type': 'application/json'
+                },
+                body: JSON.stringify(this.wrap(newConfig, shape))
+              });
+
+              if (response.status === 200 || response.status === 201 || response.status === 204) {
+                Logger.info(`Successfully updated MCP configuration for ${repositoryName} via ${method} ${endpoint}`);
+                return;
+              } else if (response.status === 404) {
+                // Not found, continue to next endpoint
+                continue;
+              } else if (response.status === 403) {
+                Logger.warn(`Access denied for ${endpoint}: ${response.status}`);
+                const errorData = await response.text();
+                Logger.warn(`Error details: ${errorData}`);
+              } else {
+                // Log other status codes for debugging
+                const errorData = await response.text();
+                Logger.info(`Update endpoint ${endpoint} returned ${response.status}: ${errorData}`);
+              }
+            } catch (error) {
+              if (error instanceof RateLimitError) {
+                throw error;
+              }
+              Logger.warn(`Error updating endpoint ${endpoint}: ${error}`);
             }
-          } catch (error) {
-            // Continue to next endpoint
           }
         }
       }
@@ -237,44 +274,99 @@ export class GitHubAPIAutomator {
     Logger.info('GitHub API automator cleaned up');
   }
 
-  mergeMCPConfig(existing: MCPConfig | null, newConfig: MCPConfig, strategy: MergeStrategy): MCPConfig {
-    switch (strategy) {
-      case MergeStrategy.SKIP:
-        if (existing) {
-          Logger.info('Skipping repository with existing MCP configuration');
-          return existing;
-        }
-        return newConfig;
+  mergeMCPConfig(
+    existing: MCPConfig | null,
+    newConfig: MCPConfig,
+    strategy: MergeStrategy,
+    options: MergeOptions = {}
+  ): MCPConfig {
+    return ConfigMerger.merge(existing, newConfig, strategy, options);
+  }
 
-      case MergeStrategy.MERGE:
-        if (!existing) {
-          return newConfig;
-        }
-        // Merge new servers with existing ones, keeping existing ones intact
-        const merged: MCPConfig = { 
-          mcpServers: { ...existing.mcpServers }
-        };
-        for (const [serverName, serverConfig] of Object.entries(newConfig.mcpServers)) {
-          if (!merged.mcpServers[serverName]) {
-            merged.mcpServers[serverName] = serverConfig;
-          }
-        }
-        return merged;
+  private async readRecorded(repositoryName: string, read: APIEndpoint | null): Promise<MCPConfig | null> {
+    if (!read) {
+      throw new Error(`probe-api found no MCP configuration API endpoint on ${this.capabilities!.probedAt}`);
+    }
 
-      case MergeStrategy.MERGE_OVERWRITE:
-        if (!existing) {
-          return newConfig;
-        }
-        // Merge new servers with existing ones, overwriting existing servers with same names
-        return { 
-          mcpServers: { ...existing.mcpServers, ...newConfig.mcpServers }
-        };
+    const response = await this.makeRequest(this.urlFor(read.path, repositoryName), {
+      method: 'GET',
+      headers: { 'Accept': read.accept }
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status !== 200) {
+      throw new Error(`GET ${read.path} returned ${response.status}: ${await response.text()}`);
+    }
 
-      case MergeStrategy.FORCE_OVERWRITE:
-        return newConfig;
+    const data = await response.json();
+    if (this.shapeOf(data) !== read.shape) {
+      throw new Error(`GET ${read.path} no longer returns the "${read.shape}" shape recorded by probe-api`);
+    }
+    return this.unwrap(data, read.shape);
+  }
+
+  private async writeRecorded(repositoryName: string, newConfig: MCPConfig, write: APIWriteEndpoint): Promise<void> {
+    const response = await this.makeRequest(this.urlFor(write.path, repositoryName), {
+      method: write.method,
+      headers: {
+        'Accept': write.accept,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(this.wrap(newConfig, write.shape))
+    });
+
+    if (response.status !== 200 && response.status !== 201 && response.status !== 204) {
+      throw new Error(`${write.method} ${write.path} returned ${response.status}: ${await response.text()}`);
+    }
+    Logger.info(`Updated MCP configuration for ${repositoryName} via ${write.method} ${write.path}`);
+  }
+
+  private urlFor(endpointPath: string, repositoryName: string): string {
+    const [owner, repo] = repositoryName.split('/');
+    return API_URL + endpointPath
+      .replace('{owner}', encodeURIComponent(owner))
+      .replace('{repo}', encodeURIComponent(repo));
+  }
+
+  /**
+   * How a response wraps the MCP configuration, or undefined if it does not
+   * look like one.
+   */
+  private shapeOf(data: unknown): MCPPayloadShape | undefined {
+    if (!data || typeof data !== 'object') {
+      return undefined;
+    }
+    return PAYLOAD_SHAPES.find(shape => shape in data);
+  }
+
+  private unwrap(data: unknown, shape: MCPPayloadShape): MCPConfig {
+    if (!data || typeof data !== 'object' || !(shape in data)) {
+      throw new Error(`Response has no "${shape}" field`);
+    }
+    const payload: unknown = (data as Record<string, unknown>)[shape];
+    if (!payload || typeof payload !== 'object') {
+      throw new Error(`Response field "${shape}" is not an object`);
+    }
+
+    switch (shape) {
+      case 'mcpServers':
+        return data as MCPConfig;
+      case 'servers':
+        return { mcpServers: payload as MCPConfig['mcpServers'] };
+      default:
+        return payload as MCPConfig;
+    }
+  }
 
+  private wrap(config: MCPConfig, shape: MCPPayloadShape): object {
+    switch (shape) {
+      case 'mcpServers':
+        return config;
+      case 'servers':
+        return { servers: config.mcpServers };
       default:
-        throw new Error(`Unknown merge strategy: ${strategy}`);
+        return { [shape]: config };
     }
   }
 }
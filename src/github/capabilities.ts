@@ -0,0 +1,38 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { APICapabilities } from '../types';
+
+export const CAPABILITIES_FILE_VERSION = 1;
+
+export class CapabilitiesFile {
+  static pathFor(stateDir: string): string {
+    return path.join(stateDir, 'api-capabilities.json');
+  }
+
+  static async write(filePath: string, capabilities: APICapabilities): Promise<void> {
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJson(filePath, capabilities, { spaces: 2 });
+  }
+
+  /**
+   * The recorded capabilities, or null when probe-api has not been run.
+   */
+  static async read(filePath: string): Promise<APICapabilities | null> {
+    if (!await fs.pathExists(filePath)) {
+      return null;
+    }
+
+    let capabilities: APICapabilities;
+    try {
+      capabilities = await fs.readJson(filePath) as APICapabilities;
+    } catch (error) {
+      throw new Error(`Failed to read API capabilities file: ${error}`);
+    }
+
+    if (capabilities.version !== CAPABILITIES_FILE_VERSION) {
+      throw new Error(`Unsupported API capabilities file version ${capabilities.version} (expected ${CAPABILITIES_FILE_VERSION}); run probe-api again`);
+    }
+
+    return capabilities;
+  }
+}
@@ -0,0 +1,533 @@
+import { createHash } from 'crypto';
+import sodium from 'libsodium-wrappers';
+import { DiscoveryResult, Repository, RepositoryVisibility } from '../types';
+import { Logger } from '../utils/logger';
+import { Redactor } from '../utils/redactor';
+import { GitHubCLI } from './cli';
+import { GitHubHttp } from './http';
+
+const API_URL = 'https://api.github.com';
+const PAGE_SIZE = 100;
+// Repositories looked up per GraphQL query
+const BATCH_SIZE = 50;
+
+const REPOSITORY_FIELDS = `
+  name
+  owner { login }
+  visibility
+  primaryLanguage { name }
+  isArchived
+  isFork
+  isTemplate
+  pushedAt
+  updatedAt
+  repositoryTopics(first: 100) { nodes { topic { name } } }
+  viewerCanAdminister
+`;
+
+interface GraphQLError {
+  message: string;
+  type?: string;
+  path?: Array<string | number>;
+}
+
+interface GraphQLResponse<T> {
+  data: T | null;
+  errors?: GraphQLError[];
+}
+
+// Public key secrets are encrypted with before they are sent to GitHub
+interface SecretsPublicKey {
+  key_id: string;
+  key: string;
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+interface RepositoryNode {
+  name: string;
+  owner: { login: string };
+  visibility?: string;
+  primaryLanguage?: { name: string } | null;
+  isArchived?: boolean;
+  isFork?: boolean;
+  isTemplate?: boolean;
+  pushedAt?: string;
+  updatedAt?: string;
+  repositoryTopics?: { nodes: Array<{ topic: { name: string } }> };
+  viewerCanAdminister: boolean;
+}
+
+interface RepositoryConnection {
+  repositories: { nodes: RepositoryNode[]; pageInfo: PageInfo };
+}
+
+interface TeamRepositoryConnection {
+  repositories: { edges: Array<{ permission: string; node: { nameWithOwner: string } }>; pageInfo: PageInfo };
+}
+
+export class GitHubClient {
+  private publicKeys = new Map<string, Promise<SecretsPublicKey>>();
+
+  constructor(
+    private readonly token: string,
+    private readonly apiUrl: string = API_URL,
+    private readonly http: GitHubHttp = GitHubHttp.shared
+  ) {}
+
+  /**
+   * Create a client authenticated with GITHUB_TOKEN or GH_TOKEN, falling back
+   * to the GitHub CLI's token.
+   */
+  static async create(): Promise<GitHubClient> {
+    return new GitHubClient(await this.resolveToken());
+  }
+
+  static async resolveToken(): Promise<string> {
+    const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN || await GitHubCLI.getAuthToken();
+    Redactor.addSecrets([token]);
+    return token;
+  }
+
+  /**
+   * Encrypt a secret value with a repository's public key, as the secrets API
+   * requires (a libsodium sealed box, base64 encoded).
+   */
+  static async encryptSecret(value: string, publicKey: string): Promise<string> {
+    await sodium.ready;
+    const encrypted = sodium.crypto_box_seal(
+      sodium.from_string(value),
+      sodium.from_base64(publicKey, sodium.base64_variants.ORIGINAL)
+    );
+    return sodium.to_base64(encrypted, sodium.base64_variants.ORIGINAL);
+  }
+
+  /**
+   * Identifies the account the client is authenticated as without revealing
+   * the token, so cached results are not shared between accounts.
+   */
+  get accountKey(): string {
+    return createHash('sha256').update(`${this.apiUrl}\n${this.token}`).digest('hex').slice(0, 16);
+  }
+
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<GraphQLResponse<T>> {
+    const response = await this.http.fetch(`${this.apiUrl}/graphql`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `bearer ${this.token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'bulk-github-copilot-agent-config'
+      },
+      body: JSON.stringify({ query, variables })
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub GraphQL request failed with ${response.status}: ${await response.text()}`);
+    }
+
+    const result = await response.json() as GraphQLResponse<T>;
+    if (!result.data) {
+      throw new Error(`GitHub GraphQL request failed: ${(result.errors || []).map(error => error.message).join('; ')}`);
+    }
+    return result;
+  }
+
+  async getViewerLogin(): Promise<string> {
+    const { data } = await this.graphql<{ viewer: { login: string } }>('query { viewer { login } }');
+    return data!.viewer.login;
+  }
+
+  /**
+   * Every repository of an owner (the authenticated user's own repositories
+   * by default), fetched page by page.
+   */
+  async listRepositories(owner?: string): Promise<Repository[]> {
+    const connection = `repositories(first: ${PAGE_SIZE}, after: $cursor${owner ? '' : ', ownerAffiliations: OWNER'}) {
+      nodes { ${REPOSITORY_FIELDS} }
+      pageInfo { hasNextPage endCursor }
+    }`;
+    const query = owner
+      ? `query($login: String!, $cursor: String) { repositoryOwner(login: $login) { ${connection} } }`
+      : `query($cursor: String) { viewer { ${connection} } }`;
+
+    type Data = { repositoryOwner?: RepositoryConnection | null; viewer?: RepositoryConnection };
+    const repositories = await this.paginate<Data, Repository>(query, { login: owner }, data => {
+      const root = owner ? data.repositoryOwner : data.viewer;
+      if (!root) {
+        throw new Error(`Owner ${owner} not found`);
+      }
+      return { items: root.repositories.nodes.map(node => this.toRepository(node)), pageInfo: root.repositories.pageInfo };
+    });
+
+    Logger.info(`Found ${repositories.length} repositories${owner ? ` for ${owner}` : ''}`);
+    return repositories;
+  }
+
+  /**
+   * Full names of the repositories a team can administer.
+   */
+  async listTeamAdminRepositories(org: string, team: string): Promise<string[]> {
+    const query = `query($org: String!, $team: String!, $cursor: String) {
+      organization(login: $org) {
+        team(slug: $team) {
+          repositories(first: ${PAGE_SIZE}, after: $cursor) {
+            edges { permission node { nameWithOwner } }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      }
+    }`;
+
+    type Data = { organization: { team: TeamRepositoryConnection | null } | null };
+    const names = await this.paginate<Data, string>(query, { org, team }, data => {
+      const found = data.organization?.team;
+      if (!found) {
+        throw new Error(`Team ${org}/${team} not found`);
+      }
+      return {
+        items: found.repositories.edges.filter(edge => edge.permission === 'ADMIN').map(edge => edge.node.nameWithOwner),
+        pageInfo: found.repositories.pageInfo
+      };
+    });
+
+    Logger.info(`Team ${org}/${team} administers ${names.length} repositories`);
+    return names;
+  }
+
+  /**
+   * Look up repositories by full name, several per query. Repositories that
+   * cannot be read are returned as excluded with the reason.
+   */
+  async getRepositories(names: string[]): Promise<DiscoveryResult> {
+    const result: DiscoveryResult = { repositories: [], excluded: [] };
+    const valid = names.filter(name => {
+      if (/^[^/\s]+\/[^/\s]+$/.test(name)) {
+        return true;
+      }
+      result.excluded.push({ repository: name, reason: 'is not an owner/name repository' });
+      return false;
+    });
+
+    for (let start = 0; start < valid.length; start += BATCH_SIZE) {
+      const batch = valid.slice(start, start + BATCH_SIZE);
+      const variables: Record<string, string> = {};
+      const parameters: string[] = [];
+      const fields: string[] = [];
+      batch.forEach((name, i) => {
+        [variables[`owner${i}`], variables[`name${i}`]] = name.split('/');
+        parameters.push(`$owner${i}: String!, $name${i}: String!`);
+        fields.push(`r${i}: repository(owner: $owner${i}, name: $name${i}) { ${REPOSITORY_FIELDS} }`);
+      });
+
+      const { data, errors } = await this.graphql<Record<string, RepositoryNode | null>>(
+        `query(${parameters.join(', ')}) { ${fields.join('\n')} }`,
+        variables
+      );
+
+      batch.forEach((name, i) => {
+        const node = data![`r${i}`];
+        if (node) {
+          result.repositories.push(this.toRepository(node));
+        } else {
+          const error = errors?.find(candidate => candidate.path?.[0] === `r${i}`);
+          result.excluded.push({ repository: name, reason: `could not be read (${error?.message || 'not found'})` });
+        }
+      });
+      Logger.info(`Looked up ${Math.min(start + BATCH_SIZE, valid.length)} of ${valid.length} repositories`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Create or update an Actions secret. The value is encrypted before it
+   * leaves this process.
+   */
+  async setRepositorySecret(repoName: string, secretName: string, secretValue: string): Promise<void> {
+    try {
+      await this.setSecret(`${this.repoPath(repoName)}/actions`, secretName, secretValue);
+      Logger.info(`Set secret ${secretName} for repository ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to set secret ${secretName} for ${repoName}: ${error}`);
+    }
+  }
+
+  /**
+   * Create an Actions variable, or update it when it already exists.
+   */
+  async setRepositoryVariable(repoName: string, variableName: string, variableValue: string): Promise<void> {
+    try {
+      await this.setVariable(`${this.repoPath(repoName)}/actions`, variableName, variableValue);
+      Logger.info(`Set variable ${variableName} for repository ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to set variable ${variableName} for ${repoName}: ${error}`);
+    }
+  }
+
+  /**
+   * Create a deployment environment unless it already exists. Returns whether
+   * it was created; an existing environment's protection rules are left alone.
+   */
+  async ensureEnvironment(repoName: string, environment: string): Promise<boolean> {
+    try {
+      if (await this.hasEnvironment(repoName, environment)) {
+        return false;
+      }
+
+      await this.rest('PUT', this.environmentPath(repoName, environment), {});
+      Logger.info(`Created environment ${environment} for repository ${repoName}`);
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to create environment ${environment} for ${repoName}: ${error}`);
+    }
+  }
+
+  async hasEnvironment(repoName: string, environment: string): Promise<boolean> {
+    const environmentPath = this.environmentPath(repoName, environment);
+    const response = await this.request('GET', environmentPath);
+    if (response.ok || response.status === 404) {
+      return response.ok;
+    }
+    throw new Error(`Failed to look up environment ${environment} of ${repoName}: ${await this.describeFailure('GET', environmentPath, response)}`);
+  }
+
+  async setEnvironmentSecret(repoName: string, environment: string, secretName: string, secretValue: string): Promise<void> {
+    try {
+      await this.setSecret(this.environmentPath(repoName, environment), secretName, secretValue);
+      Logger.info(`Set secret ${secretName} for environment ${environment} of ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to set secret ${secretName} for environment ${environment} of ${repoName}: ${error}`);
+    }
+  }
+
+  async setEnvironmentVariable(repoName: string, environment: string, variableName: string, variableValue: string): Promise<void> {
+    try {
+      await this.setVariable(this.environmentPath(repoName, environment), variableName, variableValue);
+      Logger.info(`Set variable ${variableName} for environment ${environment} of ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to set variable ${variableName} for environment ${environment} of ${repoName}: ${error}`);
+    }
+  }
+
+  async listRepositorySecrets(repoName: string): Promise<string[]> {
+    try {
+      return await this.listSecrets(`${this.repoPath(repoName)}/actions`);
+    } catch (error) {
+      throw new Error(`Failed to list secrets for ${repoName}: ${error}`);
+    }
+  }
+
+  async listRepositoryVariables(repoName: string): Promise<Record<string, string>> {
+    try {
+      return await this.listVariables(`${this.repoPath(repoName)}/actions`);
+    } catch (error) {
+      throw new Error(`Failed to list variables for ${repoName}: ${error}`);
+    }
+  }
+
+  async listEnvironmentSecrets(repoName: string, environment: string): Promise<string[]> {
+    try {
+      return await this.listSecrets(this.environmentPath(repoName, environment));
+    } catch (error) {
+      throw new Error(`Failed to list secrets for environment ${environment} of ${repoName}: ${error}`);
+    }
+  }
+
+  async listEnvironmentVariables(repoName: string, environment: string): Promise<Record<string, string>> {
+    try {
+      return await this.listVariables(this.environmentPath(repoName, environment));
+    } catch (error) {
+      throw new Error(`Failed to list variables for environment ${environment} of ${repoName}: ${error}`);
+    }
+  }
+
+  async deleteRepositorySecret(repoName: string, secretName: string): Promise<void> {
+    try {
+      await this.rest('DELETE', `${this.repoPath(repoName)}/actions/secrets/${encodeURIComponent(secretName)}`);
+      Logger.info(`Deleted secret ${secretName} from repository ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to delete secret ${secretName} from ${repoName}: ${error}`);
+    }
+  }
+
+  async deleteRepositoryVariable(repoName: string, variableName: string): Promise<void> {
+    try {
+      await this.rest('DELETE', `${this.repoPath(repoName)}/actions/variables/${encodeURIComponent(variableName)}`);
+      Logger.info(`Deleted variable ${variableName} from repository ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to delete variable ${variableName} from ${repoName}: ${error}`);
+    }
+  }
+
+  async deleteEnvironmentSecret(repoName: string, environment: string, secretName: string): Promise<void> {
+    try {
+      await this.rest('DELETE', `${this.environmentPath(repoName, environment)}/secrets/${encodeURIComponent(secretName)}`);
+      Logger.info(`Deleted secret ${secretName} from environment ${environment} of ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to delete secret ${secretName} from environment ${environment} of ${repoName}: ${error}`);
+    }
+  }
+
+  async deleteEnvironmentVariable(repoName: string, environment: string, variableName: string): Promise<void> {
+    try {
+      await this.rest('DELETE', `${this.environmentPath(repoName, environment)}/variables/${encodeURIComponent(variableName)}`);
+      Logger.info(`Deleted variable ${variableName} from environment ${environment} of ${repoName}`);
+    } catch (error) {
+      throw new Error(`Failed to delete variable ${variableName} from environment ${environment} of ${repoName}: ${error}`);
+    }
+  }
+
+  /**
+   * Secrets and variables live under the same base path for a repository's
+   * Actions (/repos/o/r/actions) and for an environment (/repos/o/r/environments/e).
+   */
+  private async setSecret(basePath: string, secretName: string, secretValue: string): Promise<void> {
+    const publicKey = await this.getPublicKey(basePath);
+    await this.rest('PUT', `${basePath}/secrets/${encodeURIComponent(secretName)}`, {
+      encrypted_value: await GitHubClient.encryptSecret(secretValue, publicKey.key),
+      key_id: publicKey.key_id
+    });
+  }
+
+  private async setVariable(basePath: string, variableName: string, variableValue: string): Promise<void> {
+    const variables = `${basePath}/variables`;
+    const response = await this.request('POST', variables, { name: variableName, value: variableValue });
+    if (response.status === 409) {
+      await this.rest('PATCH', `${variables}/${encodeURIComponent(variableName)}`, { name: variableName, value: variableValue });
+    } else if (!response.ok) {
+      throw new Error(await this.describeFailure('POST', variables, response));
+    }
+  }
+
+  private listSecrets(basePath: string): Promise<string[]> {
+    return this.paginateREST<{ secrets: Array<{ name: string }> }, string>(
+      `${basePath}/secrets?per_page=100`,
+      data => data.secrets.map(secret => secret.name)
+    );
+  }
+
+  private async listVariables(basePath: string): Promise<Record<string, string>> {
+    const entries = await this.paginateREST<{ variables: Array<{ name: string; value: string }> }, [string, string]>(
+      `${basePath}/variables?per_page=30`,
+      data => data.variables.map(variable => [variable.name, variable.value])
+    );
+    return Object.fromEntries(entries);
+  }
+
+  private getPublicKey(basePath: string): Promise<SecretsPublicKey> {
+    let publicKey = this.publicKeys.get(basePath);
+    if (!publicKey) {
+      publicKey = this.rest<SecretsPublicKey>('GET', `${basePath}/secrets/public-key`);
+      // Don't keep a failed lookup around
+      publicKey.catch(() => this.publicKeys.delete(basePath));
+      this.publicKeys.set(basePath, publicKey);
+    }
+    return publicKey;
+  }
+
+  private environmentPath(repoName: string, environment: string): string {
+    return `${this.repoPath(repoName)}/environments/${encodeURIComponent(environment)}`;
+  }
+
+  private repoPath(repoName: string): string {
+    const [owner, name, ...rest] = repoName.split('/');
+    if (!owner || !name || rest.length > 0) {
+      throw new Error(`Invalid repository name "${repoName}": expected owner/name`);
+    }
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`;
+  }
+
+  private async request(method: string, endpoint: string, body?: unknown): Promise<Response> {
+    return this.http.fetch(endpoint.startsWith('https://') ? endpoint : `${this.apiUrl}${endpoint}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        'User-Agent': 'bulk-github-copilot-agent-config',
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  }
+
+  /**
+   * Make a REST request and parse its JSON response, failing on any status
+   * other than 2xx.
+   */
+  private async rest<T = unknown>(method: string, endpoint: string, body?: unknown): Promise<T> {
+    const response = await this.request(method, endpoint, body);
+    if (!response.ok) {
+      throw new Error(await this.describeFailure(method, endpoint, response));
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  /**
+   * Follow a REST endpoint's Link header until every page has been fetched.
+   */
+  private async paginateREST<D, T>(endpoint: string, select: (data: D) => T[]): Promise<T[]> {
+    const items: T[] = [];
+    let next: string | undefined = endpoint;
+    while (next) {
+      const response = await this.request('GET', next);
+      if (!response.ok) {
+        throw new Error(await this.describeFailure('GET', next, response));
+      }
+      items.push(...select(await response.json() as D));
+      next = response.headers.get('link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1];
+    }
+    return items;
+  }
+
+  private async describeFailure(method: string, endpoint: string, response: Response): Promise<string> {
+    let message = await response.text();
+    try {
+      message = JSON.parse(message).message || message;
+    } catch {
+      // Not JSON; use the text as it is
+    }
+    return `GitHub API ${method} ${endpoint} failed with ${response.status}: ${message}`;
+  }
+
+  /**
+   * Follow a connection's cursor until every page has been fetched. The query
+   * must take a $cursor variable.
+   */
+  private async paginate<D, T>(query: string, variables: Record<string, unknown>, select: (data: D) => Page<T>): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | null = null;
+    do {
+      const { data } = await this.graphql<D>(query, { ...variables, cursor });
+      const page = select(data!);
+      items.push(...page.items);
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+    return items;
+  }
+
+  private toRepository(repo: RepositoryNode): Repository {
+    return {
+      name: repo.name,
+      owner: repo.owner.login,
+      fullName: `${repo.owner.login}/${repo.name}`,
+      hasAdminAccess: repo.viewerCanAdminister,
+      topics: repo.repositoryTopics?.nodes.map(node => node.topic.name) || [],
+      visibility: repo.visibility?.toLowerCase() as RepositoryVisibility | undefined,
+      primaryLanguage: repo.primaryLanguage?.name ?? null,
+      isArchived: repo.isArchived,
+      isFork: repo.isFork,
+      isTemplate: repo.isTemplate,
+      pushedAt: repo.pushedAt,
+      updatedAt: repo.updatedAt
+    };
+  }
+}
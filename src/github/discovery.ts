@@ -0,0 +1,243 @@
+import {
+  DiscoveryOptions,
+  DiscoveryResult,
+  ExcludedRepository,
+  OrganizationSource,
+  RepoConfig,
+  RepoFilters,
+  Repository
+} from '../types';
+import { GitHubClient } from './client';
+import { DEFAULT_STATE_DIR } from '../state/run-state';
+import { DEFAULT_CACHE_TTL, DiscoveryCache } from '../state/discovery-cache';
+import { Logger } from '../utils/logger';
+import { Glob } from '../utils/glob';
+
+// Repositories found by a repos.yaml selection, before filters are applied
+interface DiscoverySnapshot extends DiscoveryResult {
+  viewerLogin?: string;
+}
+
+export class RepositoryDiscovery {
+  /**
+   * Find the repositories a repos.yaml selects and apply its filters,
+   * recording why each excluded repository was left out. Fetched
+   * repositories are cached in the state directory; filters are always
+   * applied afresh.
+   */
+  static async discover(config: RepoConfig, options: DiscoveryOptions = {}): Promise<DiscoveryResult> {
+    if (!config.all_accessible_repos && !config.repositories && !config.organizations) {
+      throw new Error('Invalid repository configuration');
+    }
+
+    const client = await GitHubClient.create();
+    const cache = new DiscoveryCache(options.stateDir ?? DEFAULT_STATE_DIR, options.cacheTtl ?? DEFAULT_CACHE_TTL);
+    const key = {
+      account: client.accountKey,
+      all_accessible_repos: config.all_accessible_repos ?? false,
+      repositories: config.repositories ?? null,
+      organizations: config.organizations ?? null
+    };
+
+    const cached = options.refresh ? undefined : await cache.get<DiscoverySnapshot>(key);
+    let snapshot: DiscoverySnapshot;
+    if (cached) {
+      Logger.info(`Using repositories discovered at ${cached.cachedAt}`);
+      snapshot = cached.value;
+      if (config.filters?.owner_only && !snapshot.viewerLogin) {
+        // Cached before the login was always recorded
+        snapshot.viewerLogin = await client.getViewerLogin();
+        await cache.set(key, snapshot);
+      }
+    } else {
+      snapshot = await this.fetchCandidates(client, config);
+      await cache.set(key, snapshot);
+    }
+
+    const result = this.applyFilters(snapshot.repositories, config.filters || {}, snapshot.viewerLogin);
+    result.excluded.unshift(...snapshot.excluded);
+    if (cached) {
+      result.cachedAt = cached.cachedAt;
+    }
+
+    Logger.info(`Discovered ${result.repositories.length} repositories, excluded ${result.excluded.length}`);
+    return result;
+  }
+
+  /**
+   * Apply the discovery filters, in the order they are documented. Metadata
+   * that is not known for a repository does not exclude it.
+   */
+  static applyFilters(repositories: Repository[], filters: RepoFilters, viewerLogin?: string, now = new Date()): DiscoveryResult {
+    const result: DiscoveryResult = { repositories: [], excluded: [] };
+    for (const repo of repositories) {
+      const reason = this.exclusionReason(repo, filters, viewerLogin, now);
+      if (reason) {
+        result.excluded.push({ repository: repo.fullName, reason });
+      } else {
+        result.repositories.push(repo);
+      }
+    }
+    return result;
+  }
+
+  private static exclusionReason(repo: Repository, filters: RepoFilters, viewerLogin: string | undefined, now: Date): string | undefined {
+    const excludedBy = filters.exclude?.find(pattern => Glob.matches(repo.fullName, pattern));
+    if (excludedBy) {
+      return `excluded by filters.exclude ("${excludedBy}")`;
+    }
+
+    if (!repo.hasAdminAccess) {
+      return 'no admin access';
+    }
+
+    if (filters.owner_only && viewerLogin && repo.owner.toLowerCase() !== viewerLogin.toLowerCase()) {
+      return `not owned by ${viewerLogin}`;
+    }
+
+    if (filters.patterns?.length && !filters.patterns.some(pattern => Glob.matches(repo.fullName, pattern))) {
+      return 'does not match filters.patterns';
+    }
+
+    if (filters.visibility?.length && repo.visibility && !filters.visibility.includes(repo.visibility)) {
+      return `visibility is ${repo.visibility} (allowed: ${filters.visibility.join(', ')})`;
+    }
+
+    if (filters.languages?.length && repo.primaryLanguage !== undefined) {
+      const languages = filters.languages.map(language => language.toLowerCase());
+      if (!repo.primaryLanguage) {
+        return 'has no primary language';
+      }
+      if (!languages.includes(repo.primaryLanguage.toLowerCase())) {
+        return `primary language is ${repo.primaryLanguage} (allowed: ${filters.languages.join(', ')})`;
+      }
+    }
+
+    const flags: Array<[boolean | undefined, boolean | undefined, string]> = [
+      [filters.archived, repo.isArchived, 'archived'],
+      [filters.fork, repo.isFork, 'a fork'],
+      [filters.template, repo.isTemplate, 'a template']
+    ];
+    for (const [wanted, actual, description] of flags) {
+      if (wanted !== undefined && actual !== undefined && wanted !== actual) {
+        return actual ? `is ${description}` : `is not ${description}`;
+      }
+    }
+
+    if (filters.topics?.length) {
+      const topics = repo.topics.map(topic => topic.toLowerCase());
+      const missing = filters.topics.filter(topic => !topics.includes(topic.toLowerCase()));
+      if (filters.topic_match === 'all' && missing.length > 0) {
+        return `missing topics: ${missing.join(', ')}`;
+      }
+      if (filters.topic_match !== 'all' && missing.length === filters.topics.length) {
+        return `has none of the topics: ${filters.topics.join(', ')}`;
+      }
+    }
+
+    const dates: Array<[string | undefined, string | undefined, string]> = [
+      [filters.pushed_since, repo.pushedAt, 'pushed'],
+      [filters.updated_since, repo.updatedAt, 'updated']
+    ];
+    for (const [since, actual, description] of dates) {
+      if (since && actual) {
+        const cutoff = this.parseSince(since, now);
+        if (new Date(actual) < cutoff) {
+          return `last ${description} ${actual.slice(0, 10)}, before ${cutoff.toISOString().slice(0, 10)}`;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse a "since" filter: an ISO date, or a number of days before now.
+   */
+  static parseSince(value: string, now = new Date()): Date {
+    const days = value.match(/^(\d+)d$/);
+    if (days) {
+      return new Date(now.getTime() - Number(days[1]) * 24 * 60 * 60 * 1000);
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid date "${value}": use an ISO date such as 2024-01-01 or a number of days such as 90d`);
+    }
+    return date;
+  }
+
+  /**
+   * Every repository the selection names, before filtering, with the
+   * repositories that could not be read.
+   */
+  private static async fetchCandidates(client: GitHubClient, config: RepoConfig): Promise<DiscoverySnapshot> {
+    const candidates = new Map<string, Repository>();
+    const excluded: ExcludedRepository[] = [];
+    const add = (repo: Repository) => candidates.set(repo.fullName.toLowerCase(), repo);
+
+    if (config.all_accessible_repos) {
+      (await client.listRepositories()).forEach(add);
+    }
+
+    if (config.repositories) {
+      const entries = Array.isArray(config.repositories) ? config.repositories : config.repositories.patterns;
+      const patterns = entries.filter(entry => Glob.isPattern(entry));
+
+      const named = await client.getRepositories(entries.filter(entry => !Glob.isPattern(entry)));
+      named.repositories.forEach(add);
+      for (const failure of named.excluded) {
+        Logger.error(`Failed to get info for repository ${failure.repository}: ${failure.reason}`);
+        excluded.push(failure);
+      }
+
+      for (const repo of await this.listPatternCandidates(client, patterns)) {
+        if (patterns.some(pattern => Glob.matches(repo.fullName, pattern))) {
+          add(repo);
+        }
+      }
+    }
+
+    for (const organization of config.organizations || []) {
+      (await this.listOrganizationRepositories(client, organization)).forEach(add);
+    }
+
+    return {
+      repositories: [...candidates.values()],
+      excluded,
+      // Fetched whatever the filters, so owner_only works on cached results
+      viewerLogin: await client.getViewerLogin()
+    };
+  }
+
+  /**
+   * The repositories of an organization, narrowed to those the team
+   * administers when one is given.
+   */
+  private static async listOrganizationRepositories(client: GitHubClient, organization: string | OrganizationSource): Promise<Repository[]> {
+    const { name, team } = typeof organization === 'string' ? { name: organization, team: undefined } : organization;
+    const repositories = await client.listRepositories(name);
+    if (!team) {
+      return repositories;
+    }
+
+    const administered = new Set((await client.listTeamAdminRepositories(name, team)).map(fullName => fullName.toLowerCase()));
+    return repositories.filter(repo => administered.has(repo.fullName.toLowerCase()));
+  }
+
+  /**
+   * Repositories patterns may match: those of each plain owner named in a
+   * pattern, or the authenticated user's when a pattern's owner is a wildcard.
+   */
+  private static async listPatternCandidates(client: GitHubClient, patterns: string[]): Promise<Repository[]> {
+    if (patterns.length === 0) {
+      return [];
+    }
+
+    const owners = new Set<string | undefined>(patterns.map(pattern => Glob.literalOwner(pattern)));
+    const repositories: Repository[] = [];
+    for (const owner of owners) {
+      repositories.push(...await client.listRepositories(owner));
+    }
+    return repositories;
+  }
+}
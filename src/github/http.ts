@@ -0,0 +1,178 @@
+import { Logger } from '../utils/logger';
+
+// Retries of a rate-limited request before giving up
+const MAX_RETRIES = 5;
+// Wait after a secondary rate limit that does not say how long to wait
+const SECONDARY_BACKOFF = 60 * 1000;
+const MAX_BACKOFF = 15 * 60 * 1000;
+// Requests without throttling before concurrency is allowed to grow again
+const CALM_REQUESTS = 100;
+// Concurrency is never halved more than this many times
+const MAX_PRESSURE = 5;
+
+interface Budget {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds at which the budget is replenished
+  reset: number;
+}
+
+export interface RateLimitStats {
+  // Wall-clock time requests were paused for
+  waitedMs: number;
+  pauses: number;
+}
+
+export interface GitHubHttpOptions {
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+/**
+ * A request failed because GitHub kept rate limiting it.
+ */
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class GitHubHttp {
+  /**
+   * The request layer every GitHub API call goes through, so rate limits are
+   * shared across the whole run.
+   */
+  static readonly shared = new GitHubHttp();
+
+  private budgets = new Map<string, Budget>();
+  private pausedUntil = 0;
+  private pressure = 0;
+  private calmRequests = 0;
+  private waitedMs = 0;
+  private pauses = 0;
+
+  constructor(private readonly options: GitHubHttpOptions = {}) {}
+
+  get stats(): RateLimitStats {
+    return { waitedMs: this.waitedMs, pauses: this.pauses };
+  }
+
+  /**
+   * Make a request, first waiting while the rate limit budget is nearly used
+   * up, and retrying with backoff when GitHub answers with a rate limit.
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const resource = url.endsWith('/graphql') ? 'graphql' : 'core';
+    const method = init.method || 'GET';
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(resource);
+      const response = await (this.options.fetch || fetch)(url, init);
+      this.recordBudget(resource, response);
+
+      const delay = await this.throttleDelay(response, attempt);
+      if (delay === undefined) {
+        this.relax();
+        return response;
+      }
+
+      if (attempt >= MAX_RETRIES) {
+        throw new RateLimitError(`GitHub rate limit exceeded for ${method} ${url} after ${attempt + 1} attempts`);
+      }
+      this.tighten();
+      this.pauseUntil(this.now() + delay, `GitHub rate limited ${method} ${url} (${response.status})`);
+    }
+  }
+
+  /**
+   * How many repositories to process at once: the requested number, halved
+   * for every recent rate limit and when a budget is running low.
+   */
+  effectiveConcurrency(requested: number): number {
+    const now = this.now();
+    const low = [...this.budgets.values()].some(budget => budget.reset > now && budget.remaining < budget.limit * 0.1);
+    const pressure = Math.max(this.pressure, low ? 1 : 0);
+    return Math.max(1, Math.floor(requested / 2 ** pressure));
+  }
+
+  private async waitForBudget(resource: string): Promise<void> {
+    const budget = this.budgets.get(resource);
+    const now = this.now();
+    if (budget && budget.reset > now && budget.remaining <= Math.max(1, Math.ceil(budget.limit * 0.01))) {
+      this.pauseUntil(budget.reset + 1000, `GitHub ${resource} rate limit nearly used up (${budget.remaining} of ${budget.limit} left)`);
+    }
+
+    while (this.pausedUntil > this.now()) {
+      await (this.options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms))))(this.pausedUntil - this.now());
+    }
+  }
+
+  private recordBudget(resource: string, response: Response): void {
+    const limit = Number(response.headers.get('x-ratelimit-limit'));
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    if (limit && remaining !== null && reset) {
+      this.budgets.set(resource, { limit, remaining: Number(remaining), reset: reset * 1000 });
+    }
+  }
+
+  /**
+   * How long to wait before retrying a response that is a rate limit, or
+   * undefined if it is not one. Other 403s, such as missing permissions, are
+   * returned to the caller.
+   */
+  private async throttleDelay(response: Response, attempt: number): Promise<number | undefined> {
+    if (response.status !== 403 && response.status !== 429) {
+      return undefined;
+    }
+
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter !== null && !isNaN(Number(retryAfter))) {
+      return Number(retryAfter) * 1000;
+    }
+
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    if (response.headers.get('x-ratelimit-remaining') === '0' && reset) {
+      return Math.max(0, reset * 1000 - this.now()) + 1000;
+    }
+
+    const body = await response.clone().text();
+    if (response.status === 429 || /secondary rate limit|abuse detection/i.test(body)) {
+      return Math.min(SECONDARY_BACKOFF * 2 ** attempt, MAX_BACKOFF);
+    }
+    return undefined;
+  }
+
+  /**
+   * Pause every request until the given time. Overlapping pauses are only
+   * counted once in the time waited.
+   */
+  private pauseUntil(until: number, reason: string): void {
+    const from = Math.max(this.now(), this.pausedUntil);
+    if (until <= from) {
+      return;
+    }
+    this.waitedMs += until - from;
+    this.pausedUntil = until;
+    this.pauses++;
+    Logger.warn(`${reason}; pausing GitHub requests for ${Math.ceil((until - this.now()) / 1000)}s`);
+  }
+
+  private tighten(): void {
+    this.pressure = Math.min(this.pressure + 1, MAX_PRESSURE);
+    this.calmRequests = 0;
+  }
+
+  private relax(): void {
+    if (this.pressure > 0 && ++this.calmRequests >= CALM_REQUESTS) {
+      this.pressure--;
+      this.calmRequests = 0;
+    }
+  }
+
+  private now(): number {
+    return (this.options.now || Date.now)();
+  }
+}
@@ -1,5 +1,6 @@
 export { ConfigurationEngine } from './engine';
 export { ConfigParser } from './config/parser';
+export { ProfileResolver } from './config/profiles';
 export { GitHubCLI } from './github/cli';
 export { BrowserAutomator } from './browser/automator';
 export { Logger } from './utils/logger';
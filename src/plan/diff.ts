@@ -0,0 +1,152 @@
+import chalk from 'chalk';
+import { MCPConfig, ServerChangeSet } from '../types';
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'context';
+  text: string;
+}
+
+export class ConfigDiff {
+  /**
+   * Serialise a value with object keys sorted so that configs which only
+   * differ in key order compare as equal.
+   */
+  static canonicalJSON(value: unknown): string {
+    return JSON.stringify(value, (_, v) => {
+      if (v && typeof v === 'object' && !Array.isArray(v)) {
+        return Object.keys(v).sort().reduce((sorted: Record<string, unknown>, key) => {
+          sorted[key] = v[key];
+          return sorted;
+        }, {});
+      }
+      return v;
+    });
+  }
+
+  static isEqual(a: unknown, b: unknown): boolean {
+    return this.canonicalJSON(a) === this.canonicalJSON(b);
+  }
+
+  /**
+   * Classify every server name appearing in the current, resulting or desired
+   * config by what applying the merge does to it.
+   */
+  static classifyServers(before: MCPConfig | null, after: MCPConfig, desired: MCPConfig): ServerChangeSet {
+    const changes: ServerChangeSet = {
+      added: [],
+      replaced: [],
+      removed: [],
+      unchanged: [],
+      leftAlone: [],
+      skipped: []
+    };
+
+    const beforeServers = before?.mcpServers || {};
+    const afterServers = after.mcpServers || {};
+    const desiredServers = desired.mcpServers || {};
+    const names = new Set([
+      ...Object.keys(beforeServers),
+      ...Object.keys(afterServers),
+      ...Object.keys(desiredServers)
+    ]);
+
+    for (const name of names) {
+      const inBefore = name in beforeServers;
+      const inAfter = name in afterServers;
+      const inDesired = name in desiredServers;
+
+      if (!inBefore && inAfter) {
+        changes.added.push(name);
+      } else if (inBefore && !inAfter) {
+        changes.removed.push(name);
+      } else if (inBefore && inAfter && !this.isEqual(beforeServers[name], afterServers[name])) {
+        changes.replaced.push(name);
+      } else if (inBefore && inAfter && !inDesired) {
+        changes.leftAlone.push(name);
+      } else if (inBefore && inAfter && this.isEqual(afterServers[name], desiredServers[name])) {
+        changes.unchanged.push(name);
+      } else {
+        // Desired server that the merge strategy did not apply
+        changes.skipped.push(name);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Line-based diff (longest common subsequence) of two texts.
+   */
+  static diffLines(beforeText: string, afterText: string): DiffLine[] {
+    const a = beforeText ? beforeText.split('\n') : [];
+    const b = afterText ? afterText.split('\n') : [];
+
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ type: 'context', text: a[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        lines.push({ type: 'removed', text: a[i++] });
+      } else {
+        lines.push({ type: 'added', text: b[j++] });
+      }
+    }
+    while (i < a.length) {
+      lines.push({ type: 'removed', text: a[i++] });
+    }
+    while (j < b.length) {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Colorized diff of the pretty-printed before and after configs, showing
+   * only a few lines of context around each change.
+   */
+  static formatJSONDiff(before: MCPConfig | null, after: MCPConfig, contextLines = 3): string {
+    const beforeText = before ? JSON.stringify(before, null, 2) : '';
+    const afterText = JSON.stringify(after, null, 2);
+    const lines = this.diffLines(beforeText, afterText);
+
+    const visible = lines.map((line, index) =>
+      lines
+        .slice(Math.max(0, index - contextLines), index + contextLines + 1)
+        .some(nearby => nearby.type !== 'context')
+    );
+
+    const output: string[] = [];
+    let elided = false;
+    lines.forEach((line, index) => {
+      if (!visible[index]) {
+        if (!elided) {
+          output.push(chalk.gray('  ...'));
+          elided = true;
+        }
+        return;
+      }
+      elided = false;
+      if (line.type === 'added') {
+        output.push(chalk.green(`+ ${line.text}`));
+      } else if (line.type === 'removed') {
+        output.push(chalk.red(`- ${line.text}`));
+      } else {
+        output.push(chalk.gray(`  ${line.text}`));
+      }
+    });
+
+    return output.join('\n');
+  }
+}
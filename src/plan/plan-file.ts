@@ -0,0 +1,43 @@
+import * as fs from 'fs-extra';
+import { createHash } from 'crypto';
+import { ConfigurationPlan, MCPConfig } from '../types';
+import { ConfigDiff } from './diff';
+
+export const PLAN_FILE_VERSION = 2;
+
+export class PlanFile {
+  /**
+   * Fingerprint of a repository's current MCP configuration, used by apply to
+   * detect configs that changed after the plan was reviewed.
+   */
+  static fingerprint(config: MCPConfig | null): string {
+    if (!config) {
+      return 'none';
+    }
+    return createHash('sha256').update(ConfigDiff.canonicalJSON(config)).digest('hex');
+  }
+
+  static async write(filePath: string, plan: ConfigurationPlan): Promise<void> {
+    // Plans hold rendered configs that may include credentials
+    await fs.writeJson(filePath, plan, { spaces: 2, mode: 0o600 });
+  }
+
+  static async read(filePath: string): Promise<ConfigurationPlan> {
+    let plan: ConfigurationPlan;
+    try {
+      plan = await fs.readJson(filePath) as ConfigurationPlan;
+    } catch (error) {
+      throw new Error(`Failed to read plan file: ${error}`);
+    }
+
+    if (plan.version !== PLAN_FILE_VERSION) {
+      throw new Error(`Unsupported plan file version ${plan.version} (expected ${PLAN_FILE_VERSION})`);
+    }
+
+    if (!Array.isArray(plan.repositories)) {
+      throw new Error('Plan file must have a "repositories" array');
+    }
+
+    return plan;
+  }
+}
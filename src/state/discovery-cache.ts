@@ -0,0 +1,63 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ConfigDiff } from '../plan/diff';
+import { Logger } from '../utils/logger';
+
+// Minutes a cached discovery result is reused by default
+export const DEFAULT_CACHE_TTL = 15;
+
+interface CacheEntry<T> {
+  key: unknown;
+  cachedAt: string;
+  value: T;
+}
+
+export class DiscoveryCache {
+  private readonly cacheDir: string;
+
+  /**
+   * A ttl of 0 minutes disables the cache.
+   */
+  constructor(stateDir: string, private readonly ttlMinutes: number = DEFAULT_CACHE_TTL) {
+    this.cacheDir = path.join(stateDir, 'cache');
+  }
+
+  /**
+   * The cached value for a key and when it was cached, unless it is missing
+   * or older than the ttl.
+   */
+  async get<T>(key: unknown, now = new Date()): Promise<{ value: T; cachedAt: string } | undefined> {
+    const cachePath = this.pathFor(key);
+    if (this.ttlMinutes <= 0 || !await fs.pathExists(cachePath)) {
+      return undefined;
+    }
+
+    try {
+      const entry = await fs.readJson(cachePath) as CacheEntry<T>;
+      const age = now.getTime() - new Date(entry.cachedAt).getTime();
+      if (!(age >= 0 && age < this.ttlMinutes * 60 * 1000)) {
+        return undefined;
+      }
+      return { value: entry.value, cachedAt: entry.cachedAt };
+    } catch (error) {
+      Logger.warn(`Ignoring unreadable discovery cache ${cachePath}: ${error}`);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: unknown, value: T, now = new Date()): Promise<void> {
+    if (this.ttlMinutes <= 0) {
+      return;
+    }
+
+    const entry: CacheEntry<T> = { key, cachedAt: now.toISOString(), value };
+    await fs.ensureDir(this.cacheDir);
+    await fs.writeJson(this.pathFor(key), entry, { spaces: 2 });
+  }
+
+  private pathFor(key: unknown): string {
+    const hash = createHash('sha256').update(ConfigDiff.canonicalJSON(key)).digest('hex').slice(0, 32);
+    return path.join(this.cacheDir, `discovery-${hash}.json`);
+  }
+}
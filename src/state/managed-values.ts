@@ -0,0 +1,67 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { DEFAULT_STATE_DIR } from './run-state';
+
+// Names of the secrets and variables set in one scope of a repository
+export interface ManagedNames {
+  secrets: string[];
+  variables: string[];
+}
+
+// Scope label ("repository" or "environment <name>") to the names set there, by repository
+type ManagedValues = Record<string, Record<string, ManagedNames>>;
+
+/**
+ * Records which secrets and variables this tool has set in each repository,
+ * so pruning only ever deletes values it manages and never ones created by
+ * hand or by other tools.
+ */
+export class ManagedValuesStore {
+  private readonly manifestPath: string;
+  private values: Promise<ManagedValues> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(stateDir: string = DEFAULT_STATE_DIR) {
+    this.manifestPath = path.join(stateDir, 'managed-values.json');
+  }
+
+  async get(repository: string, scope: string): Promise<ManagedNames> {
+    const names = (await this.load())[repository]?.[scope];
+    return { secrets: names?.secrets || [], variables: names?.variables || [] };
+  }
+
+  /**
+   * The scopes of a repository that have names recorded.
+   */
+  async scopes(repository: string): Promise<string[]> {
+    return Object.keys((await this.load())[repository] || {});
+  }
+
+  /**
+   * Replace the names recorded for a scope. Repositories are processed in
+   * parallel, so writes are serialised.
+   */
+  async set(repository: string, scope: string, names: ManagedNames): Promise<void> {
+    const values = await this.load();
+    const scopes = values[repository] ??= {};
+    if (names.secrets.length === 0 && names.variables.length === 0) {
+      delete scopes[scope];
+    } else {
+      scopes[scope] = { secrets: [...names.secrets].sort(), variables: [...names.variables].sort() };
+    }
+
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      await fs.ensureDir(path.dirname(this.manifestPath));
+      await fs.writeJson(this.manifestPath, values, { spaces: 2 });
+    });
+    await this.writeQueue;
+  }
+
+  private load(): Promise<ManagedValues> {
+    if (!this.values) {
+      this.values = fs.pathExists(this.manifestPath)
+        .then(exists => exists ? fs.readJson(this.manifestPath) as Promise<ManagedValues> : {});
+    }
+    return this.values;
+  }
+}
@@ -0,0 +1,200 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import {
+  ConfigHashes,
+  ConfigSnapshot,
+  ConfigurationOptions,
+  MergeStrategy,
+  OperationResult,
+  Repository,
+  RunState
+} from '../types';
+import { Logger } from '../utils/logger';
+import { ConfigDiff } from '../plan/diff';
+
+export const DEFAULT_STATE_DIR = '.copilot-config';
+
+export class RunStateStore {
+  private readonly runsDir: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(stateDir: string = DEFAULT_STATE_DIR) {
+    this.runsDir = path.join(stateDir, 'runs');
+  }
+
+  static async hashFile(filePath: string): Promise<string> {
+    const content = await fs.readFile(filePath);
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Hash the configuration files of a run. The MCP configuration is spread over
+   * --mcp-config files, the files they extend and repos.yaml profiles, so its
+   * hash is computed by the caller from the resolved configuration.
+   */
+  static async hashConfigFiles(options: ConfigurationOptions, mcpConfigHash: string): Promise<ConfigHashes> {
+    const hashes: ConfigHashes = {
+      repoConfig: await this.hashFile(options.repoConfig),
+      mcpConfig: mcpConfigHash
+    };
+    if (options.secretsConfig) {
+      hashes.secretsConfig = await this.hashFile(options.secretsConfig);
+    }
+    return hashes;
+  }
+
+  runDirectory(runId: string): string {
+    return path.join(this.runsDir, runId);
+  }
+
+  async create(configHashes: ConfigHashes, mergeStrategy: MergeStrategy): Promise<RunState> {
+    const now = new Date().toISOString();
+    const state: RunState = {
+      runId: now.replace(/[:.]/g, '-'),
+      startedAt: now,
+      updatedAt: now,
+      mergeStrategy,
+      configHashes,
+      results: {}
+    };
+
+    await this.save(state);
+    Logger.info(`Created run state ${state.runId}`);
+    return state;
+  }
+
+  async load(runId: string): Promise<RunState> {
+    const statePath = path.join(this.runDirectory(runId), 'state.json');
+    if (!await fs.pathExists(statePath)) {
+      throw new Error(`Run state not found for run ${runId}`);
+    }
+    return await fs.readJson(statePath) as RunState;
+  }
+
+  async loadLatest(): Promise<RunState | null> {
+    if (!await fs.pathExists(this.runsDir)) {
+      return null;
+    }
+
+    // Run ids are ISO timestamps, so lexical order is chronological order
+    const runIds = (await fs.readdir(this.runsDir)).sort().reverse();
+    for (const runId of runIds) {
+      if (await fs.pathExists(path.join(this.runDirectory(runId), 'state.json'))) {
+        return await this.load(runId);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Record a finished repository and persist the state immediately so an
+   * interrupted run can be resumed. Writes are serialised because results
+   * arrive concurrently. Applied MCP changes are snapshotted for rollback
+   * instead of being kept in the state, since configs may include credentials.
+   */
+  recordResult(state: RunState, result: OperationResult): Promise<void> {
+    const now = new Date().toISOString();
+    state.results[result.repository] = {
+      status: result.success ? 'succeeded' : 'failed',
+      completedAt: now,
+      result: { ...result, changes: { ...result.changes, mcpConfig: undefined } }
+    };
+    state.updatedAt = now;
+
+    const mcpChange = result.changes.mcpConfig;
+    const snapshot: ConfigSnapshot | null = result.success && mcpChange && !ConfigDiff.isEqual(mcpChange.before, mcpChange.after)
+      ? { runId: state.runId, repository: result.repository, capturedAt: now, before: mcpChange.before, after: mcpChange.after }
+      : null;
+
+    this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+      if (snapshot) {
+        await this.saveSnapshot(snapshot);
+      }
+      await this.save(state);
+    });
+    return this.writeQueue;
+  }
+
+  async loadSnapshots(runId: string): Promise<ConfigSnapshot[]> {
+    const snapshotDir = this.snapshotDirectory(runId);
+    if (!await fs.pathExists(snapshotDir)) {
+      return [];
+    }
+
+    const files = (await fs.readdir(snapshotDir)).filter(file => file.endsWith('.json')).sort();
+    const snapshots: ConfigSnapshot[] = [];
+    for (const file of files) {
+      snapshots.push(await fs.readJson(path.join(snapshotDir, file)) as ConfigSnapshot);
+    }
+    return snapshots;
+  }
+
+  private snapshotDirectory(runId: string): string {
+    return path.join(this.runDirectory(runId), 'snapshots');
+  }
+
+  private async saveSnapshot(snapshot: ConfigSnapshot): Promise<void> {
+    const snapshotDir = this.snapshotDirectory(snapshot.runId);
+    await fs.ensureDir(snapshotDir);
+    // Snapshots hold full configs, which may include credentials
+    await fs.writeJson(
+      path.join(snapshotDir, `${snapshot.repository.replace('/', '__')}.json`),
+      snapshot,
+      { spaces: 2, mode: 0o600 }
+    );
+  }
+
+  /**
+   * Refuse to continue a run whose desired MCP config or merge strategy differs
+   * from the current invocation; only warn about repository or secrets changes.
+   */
+  assertCompatible(state: RunState, configHashes: ConfigHashes, mergeStrategy: MergeStrategy): void {
+    if (state.configHashes.mcpConfig !== configHashes.mcpConfig) {
+      throw new Error(
+        `Run ${state.runId} was recorded with a different MCP configuration file. ` +
+        'Start a new run without --resume/--retry-failed to apply the changed configuration.'
+      );
+    }
+
+    if (state.mergeStrategy !== mergeStrategy) {
+      throw new Error(
+        `Run ${state.runId} was recorded with merge strategy "${state.mergeStrategy}" but "${mergeStrategy}" was requested.`
+      );
+    }
+
+    if (state.configHashes.repoConfig !== configHashes.repoConfig) {
+      Logger.warn(`Repository configuration has changed since run ${state.runId}`);
+    }
+
+    if (state.configHashes.secretsConfig !== configHashes.secretsConfig) {
+      Logger.warn(`Secrets configuration has changed since run ${state.runId}`);
+    }
+  }
+
+  /**
+   * Narrow the discovered repositories to those that still need work:
+   * with retryFailed only repositories whose last result failed, otherwise
+   * (resume) every repository that has not yet succeeded.
+   */
+  static selectPending(repositories: Repository[], state: RunState, retryFailed: boolean): Repository[] {
+    return repositories.filter(repo => {
+      const entry = state.results[repo.fullName];
+      if (retryFailed) {
+        return entry?.status === 'failed';
+      }
+      return entry?.status !== 'succeeded';
+    });
+  }
+
+  private async save(state: RunState): Promise<void> {
+    const runDir = this.runDirectory(state.runId);
+    const statePath = path.join(runDir, 'state.json');
+    const tempPath = `${statePath}.tmp`;
+
+    await fs.ensureDir(runDir);
+    // Results may still carry error messages and secret names
+    await fs.writeJson(tempPath, state, { spaces: 2, mode: 0o600 });
+    await fs.move(tempPath, statePath, { overwrite: true });
+  }
+}
@@ -1,28 +1,109 @@
 // Configuration interfaces and types
 export interface RepoConfig {
-  repositories?: string[];
+  // Names, glob patterns or /regular expressions/, or an object listing patterns
+  repositories?: string[] | { patterns: string[] };
   all_accessible_repos?: boolean;
+  organizations?: Array<string | OrganizationSource>;
   filters?: RepoFilters;
   options?: ProcessingOptions;
+  profiles?: Record<string, ProfileDefinition>;
+  base_profile?: string;
+  profile_assignments?: ProfileAssignment[];
+}
+
+// An organization whose repositories are configured, optionally only those a team administers
+export interface OrganizationSource {
+  name: string;
+  team?: string;
+}
+
+// A named set of MCP servers, defined inline or in a separate MCP config file
+export interface ProfileDefinition {
+  mcpServers?: MCPConfig['mcpServers'];
+  remove?: string[];
+  config?: string;
+}
+
+export interface ProfileAssignment {
+  profiles: string[];
+  repositories?: string[];
+  patterns?: string[];
+  topics?: string[];
 }
 
 export interface RepoFilters {
   owner_only?: boolean;
   topics?: string[];
+  // Whether a repository needs any (default) or all of the topics
+  topic_match?: 'any' | 'all';
   exclude?: string[];
   patterns?: string[];
+  visibility?: RepositoryVisibility[];
+  languages?: string[];
+  archived?: boolean;
+  fork?: boolean;
+  template?: boolean;
+  // ISO dates, or a number of days such as "90d"
+  pushed_since?: string;
+  updated_since?: string;
 }
 
+export type RepositoryVisibility = 'public' | 'private' | 'internal';
+
 export interface ProcessingOptions {
   skip_existing?: boolean;
+  merge?: boolean;
+  overwrite_existing?: boolean;
+  force_overwrite?: boolean;
+  deep_merge?: boolean;
+  prefer?: MergePrecedence;
+  prune?: boolean;
   concurrency?: number;
   verbose?: boolean;
+  continue_on_error?: boolean;
+  strict?: boolean;
+  prune_secrets?: boolean;
+}
+
+// Run settings that may be given as CLI flags or in the options block of repos.yaml
+export interface RunSettings {
+  skipExisting: boolean;
+  merge: boolean;
+  mergeOverwrite: boolean;
+  forceOverwrite: boolean;
+  deepMerge: boolean;
+  mergePrecedence: MergePrecedence;
+  prune: boolean;
+  concurrency: number;
+  verbose: boolean;
+  continueOnError: boolean;
+  strict: boolean;
+  pruneSecrets: boolean;
+}
+
+export type OptionSource = 'cli' | 'repos.yaml' | 'default';
+
+export interface ResolvedSettings {
+  settings: RunSettings;
+  sources: Record<keyof RunSettings, OptionSource>;
 }
 
 export interface MCPConfig {
   mcpServers: {
     [serverName: string]: MCPServerConfig;
   };
+  // Server names to delete from every repository's configuration
+  remove?: string[];
+}
+
+// An MCP config file as written, before its "extends" chain is resolved. Servers
+// may be partial overrides of inherited ones, or null to drop an inherited one.
+export interface MCPConfigLayer {
+  extends?: string | string[];
+  mcpServers?: {
+    [serverName: string]: Partial<MCPServerConfig> | null;
+  };
+  remove?: string[];
 }
 
 export interface MCPServerConfig {
@@ -41,6 +122,34 @@ export interface MCPServerConfig {
 export interface SecretsConfig {
   secrets?: Record<string, string>;
   variables?: Record<string, string>;
+  // Secrets and variables of a deployment environment (copilot by default)
+  environment?: EnvironmentSecretsConfig;
+}
+
+export interface EnvironmentSecretsConfig {
+  name?: string;
+  secrets?: Record<string, string>;
+  variables?: Record<string, string>;
+}
+
+export type ConfigFileKind = 'repos' | 'mcp-config' | 'mcp-overlay' | 'secrets';
+
+// JSON files may contain comments and trailing commas
+export type ConfigFileFormat = 'json' | 'yaml';
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  // JSON path of the offending value, e.g. $.filters.topics[0]
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface TemplateContext {
+  repo?: Repository;
+  // Fail on unset environment variables instead of using an empty string
+  strict?: boolean;
 }
 
 export interface Repository {
@@ -49,17 +158,48 @@ export interface Repository {
   fullName: string;
   hasAdminAccess: boolean;
   topics: string[];
+  // Metadata used by discovery filters, when known
+  visibility?: RepositoryVisibility;
+  primaryLanguage?: string | null;
+  isArchived?: boolean;
+  isFork?: boolean;
+  isTemplate?: boolean;
+  pushedAt?: string;
+  updatedAt?: string;
+}
+
+export interface ExcludedRepository {
+  repository: string;
+  reason: string;
 }
 
-export interface ConfigurationOptions {
+export interface DiscoveryResult {
+  repositories: Repository[];
+  excluded: ExcludedRepository[];
+  // When the repositories were fetched, if they came from the discovery cache
+  cachedAt?: string;
+}
+
+export interface DiscoveryOptions {
+  stateDir?: string;
+  // Minutes discovery results are cached for; 0 disables the cache
+  cacheTtl?: number;
+  // Fetch repositories again instead of using cached results
+  refresh?: boolean;
+}
+
+export interface ConfigurationOptions extends DiscoveryOptions {
   repoConfig: string;
-  mcpConfig: string;
+  mcpConfig?: string | string[];
   secretsConfig?: string;
   dryRun: boolean;
   skipExisting: boolean;
   merge: boolean;
   mergeOverwrite: boolean;
   forceOverwrite: boolean;
+  deepMerge?: boolean;
+  mergePrecedence?: MergePrecedence;
+  prune?: boolean;
   concurrency: number;
   verbose: boolean;
   debug: boolean;
@@ -67,6 +207,25 @@ export interface ConfigurationOptions {
   interactiveAuth: boolean;
   resume?: boolean;
   retryFailed?: boolean;
+  // Try every guessed MCP API endpoint for writes when probe-api has not recorded one
+  allowGuessedWrites?: boolean;
+  // Keep processing after a repository fails (default true)
+  continueOnError?: boolean;
+  // Fail before changing anything when a value without a default cannot be resolved
+  strict?: boolean;
+  // Dotenv files {{ dotenv.NAME }} reads (default: .env)
+  envFiles?: string[];
+  // Delete secrets and variables this tool set that the secrets file no longer defines
+  pruneSecrets?: boolean;
+}
+
+// What happened to the secrets or variables of one scope
+export interface ValueChangeSet {
+  added: string[];
+  updated: string[];
+  // Variables already holding the desired value; secret values cannot be read, so they are always set
+  unchanged: string[];
+  removed: string[];
 }
 
 export interface OperationResult {
@@ -78,19 +237,83 @@ export interface OperationResult {
       after: MCPConfig;
       strategy: string;
     };
-    secrets?: {
-      added: string[];
-      updated: string[];
-    };
-    variables?: {
-      added: string[];
-      updated: string[];
+    secrets?: ValueChangeSet;
+    variables?: ValueChangeSet;
+    environment?: {
+      name: string;
+      created: boolean;
+      secrets?: ValueChangeSet;
+      variables?: ValueChangeSet;
     };
+    // Environments the secrets file no longer names, pruned of the values this tool set there
+    prunedEnvironments?: Array<{
+      name: string;
+      secrets?: ValueChangeSet;
+      variables?: ValueChangeSet;
+    }>;
   };
   error?: string;
   duration: number;
 }
 
+export interface ServerChangeSet {
+  added: string[];
+  replaced: string[];
+  removed: string[];
+  unchanged: string[];
+  leftAlone: string[];
+  skipped: string[];
+}
+
+export interface ConfigurationPlan {
+  version: number;
+  createdAt: string;
+  mergeStrategy: MergeStrategy;
+  configHashes: ConfigHashes;
+  secretsConfig?: string;
+  // Whether apply prunes secrets and variables the secrets file no longer defines
+  pruneSecrets?: boolean;
+  repositories: RepositoryPlan[];
+}
+
+export interface RepositoryPlan {
+  repository: string;
+  fingerprint: string;
+  readError?: string;
+  mcpConfig?: {
+    before: MCPConfig | null;
+    after: MCPConfig;
+    strategy: string;
+    changes: ServerChangeSet;
+    willChange: boolean;
+  };
+  secrets: PlannedAction[];
+  variables: PlannedAction[];
+}
+
+export interface PlannedAction {
+  name: string;
+  // Secrets that exist are always updated, since their values cannot be read;
+  // values are only removed with pruneSecrets
+  action: 'add' | 'update' | 'unchanged' | 'remove';
+  value?: string;
+  // The environment the value is set in, or the repository when absent
+  environment?: string;
+}
+
+export interface ApplyOptions {
+  planFile: string;
+  concurrency: number;
+  verbose: boolean;
+  debug: boolean;
+  apiOnly: boolean;
+  interactiveAuth: boolean;
+  stateDir?: string;
+  allowGuessedWrites?: boolean;
+  strict?: boolean;
+  envFiles?: string[];
+}
+
 export interface OperationSummary {
   totalRepositories: number;
   successful: number;
@@ -99,17 +322,162 @@ export interface OperationSummary {
   errors: RepositoryError[];
   duration: number;
   timestamp: string;
+  runId?: string;
+  removedServers?: Record<string, string[]>;
+  // Milliseconds requests were paused for GitHub rate limits
+  rateLimitWait?: number;
+  // Secrets and variables changed, by scope ("repository" or "environment <name>")
+  secretScopes?: Record<string, { secrets: ValueCounts; variables: ValueCounts }>;
+  // Environments created, by repository
+  createdEnvironments?: Record<string, string>;
+}
+
+export interface ValueCounts {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
 }
 
 export interface RepositoryError {
   repository: string;
   error: string;
-  type: 'permission' | 'config' | 'network' | 'fatal';
+  type: 'permission' | 'config' | 'network' | 'rate-limit' | 'fatal';
+}
+
+export interface RunState {
+  runId: string;
+  startedAt: string;
+  updatedAt: string;
+  mergeStrategy: MergeStrategy;
+  configHashes: ConfigHashes;
+  results: Record<string, RunStateEntry>;
+}
+
+export interface ConfigHashes {
+  repoConfig: string;
+  mcpConfig: string;
+  secretsConfig?: string;
+}
+
+export interface RunStateEntry {
+  status: 'succeeded' | 'failed';
+  completedAt: string;
+  result: OperationResult;
+}
+
+export interface ConfigSnapshot {
+  runId: string;
+  repository: string;
+  capturedAt: string;
+  before: MCPConfig | null;
+  after: MCPConfig;
+}
+
+export interface RollbackOptions {
+  runId: string;
+  dryRun: boolean;
+  force: boolean;
+  concurrency: number;
+  verbose: boolean;
+  debug: boolean;
+  apiOnly: boolean;
+  interactiveAuth: boolean;
+  stateDir?: string;
+  allowGuessedWrites?: boolean;
+}
+
+export interface ExportOptions extends DiscoveryOptions {
+  repoConfig: string;
+  outDir: string;
+  verbose: boolean;
+  debug: boolean;
+  apiOnly: boolean;
+  interactiveAuth: boolean;
+}
+
+export interface ExportIndex {
+  exportedAt: string;
+  repositories: ExportIndexEntry[];
+}
+
+export interface ExportIndexEntry {
+  repository: string;
+  file?: string;
+  source?: 'api' | 'browser';
+  hasConfig: boolean;
+  error?: string;
+}
+
+export type DriftKind =
+  | 'missing-server'
+  | 'unexpected-server'
+  | 'server-mismatch'
+  | 'missing-environment'
+  | 'missing-secret'
+  | 'missing-variable'
+  | 'variable-mismatch';
+
+export interface DriftFinding {
+  kind: DriftKind;
+  name: string;
+  field?: string;
+  expected?: unknown;
+  actual?: unknown;
+  // The environment a secret or variable belongs to, or the repository when absent
+  environment?: string;
+  message: string;
+}
+
+export interface AuditResult {
+  repository: string;
+  findings: DriftFinding[];
+  error?: string;
+}
+
+export interface AuditReport {
+  auditedAt: string;
+  mergeStrategy: MergeStrategy;
+  repositories: AuditResult[];
 }
 
 export enum MergeStrategy {
   SKIP = 'skip',
   MERGE = 'merge',
   MERGE_OVERWRITE = 'merge-overwrite',
+  DEEP_MERGE = 'deep-merge',
   FORCE_OVERWRITE = 'force-overwrite'
-}
\ No newline at end of file
+}
+
+export type MergePrecedence = 'existing' | 'new';
+
+// How the MCP configuration is wrapped in API requests and responses
+export type MCPPayloadShape = 'mcpServers' | 'servers' | 'mcp' | 'configuration';
+
+export interface APIEndpoint {
+  // Path with {owner} and {repo} placeholders
+  path: string;
+  accept: string;
+  shape: MCPPayloadShape;
+}
+
+export interface APIWriteEndpoint extends APIEndpoint {
+  method: 'PUT' | 'PATCH' | 'POST';
+}
+
+export interface ProbeAttempt {
+  path: string;
+  accept: string;
+  status?: number;
+  note?: string;
+}
+
+// The MCP configuration API endpoints probe-api found to work
+export interface APICapabilities {
+  version: number;
+  probedAt: string;
+  repository: string;
+  read: APIEndpoint | null;
+  write: APIWriteEndpoint | null;
+  attempts: ProbeAttempt[];
+}
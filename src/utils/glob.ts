@@ -0,0 +1,45 @@
+export class Glob {
+  /**
+   * Convert a glob such as "owner/*-service" to an anchored, case-insensitive
+   * regular expression. "*" and "?" do not cross "/", "**" does. A pattern
+   * written as /expression/flags is used as a regular expression as is.
+   */
+  static toRegExp(pattern: string): RegExp {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+      return new RegExp(regex[1], regex[2]);
+    }
+
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '*' && pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`, 'i');
+  }
+
+  static matches(value: string, pattern: string): boolean {
+    return this.toRegExp(pattern).test(value);
+  }
+
+  static isPattern(value: string): boolean {
+    return /[*?]/.test(value) || /^\/.+\/[a-z]*$/.test(value);
+  }
+
+  /**
+   * The owner a pattern is limited to, when its owner part is a plain name.
+   */
+  static literalOwner(pattern: string): string | undefined {
+    const [owner, name] = pattern.split('/');
+    return name !== undefined && !this.isPattern(owner) && !pattern.startsWith('/') ? owner : undefined;
+  }
+}
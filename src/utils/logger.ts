@@ -1,5 +1,16 @@
 import winston from 'winston';
 import path from 'path';
+import { Redactor } from './redactor';
+
+// Mask secrets in messages and metadata before any transport sees them
+const redact = winston.format(info => {
+  for (const key of Object.keys(info)) {
+    if (key !== 'level') {
+      info[key] = Redactor.redactValue(info[key], key);
+    }
+  }
+  return info;
+});
 
 export class Logger {
   private static instance: winston.Logger;
@@ -11,6 +22,7 @@ export class Logger {
         format: winston.format.combine(
           winston.format.timestamp(),
           winston.format.errors({ stack: true }),
+          redact(),
           winston.format.json()
         ),
         defaultMeta: { service: 'bulk-copilot-config' },
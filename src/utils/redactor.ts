@@ -0,0 +1,110 @@
+export const REDACTED = '[REDACTED]';
+
+// Shorter secret values would mask too much unrelated output
+const MIN_SECRET_LENGTH = 4;
+
+// Known token formats, most specific first so a GitHub token after "Bearer" is
+// reported as a GitHub token, each with the name validate uses for it
+export const TOKEN_PATTERNS: Array<[string, RegExp]> = [
+  ['GitHub token', /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g],
+  ['Anthropic or OpenAI API key', /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g],
+  ['Slack token', /\bxox[abprs]-[A-Za-z0-9-]{10,}/g],
+  ['AWS access key', /\bAKIA[0-9A-Z]{16}\b/g],
+  ['Google API key', /\bAIza[0-9A-Za-z_-]{35}\b/g],
+  // "token" only counts in an Authorization header, where GitHub accepts it
+  ['bearer token', /(?<=\b(?:Bearer|Basic)\s+|\bAuthorization:\s*token\s+)[A-Za-z0-9._~+/=-]{20,}/gi]
+];
+
+// Header, env and object keys whose values are credentials
+const SENSITIVE_KEY = /authorization|token|secret|passw(?:or)?d|api[-_]?key|cookie|credential|private[-_]?key/i;
+// "key": "value" in JSON text, or KEY=value as in env files and shell commands
+const SENSITIVE_JSON_PAIR = /("([\w-]+)"\s*:\s*")((?:[^"\\]|\\.)*)(")/g;
+const SENSITIVE_ASSIGNMENT = /\b([A-Za-z_][A-Za-z0-9_]*)=([^\s"'&;]+)/g;
+// Secret references and templates say where a value comes from, not what it is
+const REFERENCES = /\$\{?\w+\}?|\{\{.*?\}\}|\b(?:Bearer|Basic|token)\b/gi;
+
+export class Redactor {
+  private static secrets = new Set<string>();
+
+  /**
+   * Mask these values wherever they appear in output from now on.
+   */
+  static addSecrets(values: Iterable<string>): void {
+    for (const value of values) {
+      if (value && value.length >= MIN_SECRET_LENGTH) {
+        this.secrets.add(value);
+      }
+    }
+  }
+
+  /**
+   * Whether a header, env or object key holds a credential.
+   */
+  static isSensitiveKey(key: string): boolean {
+    return SENSITIVE_KEY.test(key);
+  }
+
+  static clearSecrets(): void {
+    this.secrets.clear();
+  }
+
+  /**
+   * Mask registered secret values, known token formats and the values of
+   * sensitive keys in a piece of text.
+   */
+  static redact(text: string): string {
+    // Longest first, so a secret containing another is masked whole
+    for (const secret of [...this.secrets].sort((a, b) => b.length - a.length)) {
+      text = text.split(secret).join(REDACTED);
+    }
+
+    for (const [, pattern] of TOKEN_PATTERNS) {
+      text = text.replace(pattern, (match, captured?: string) =>
+        typeof captured === 'string' ? match.replace(captured, REDACTED) : REDACTED);
+    }
+
+    return text
+      .replace(SENSITIVE_JSON_PAIR, (match, before: string, key: string, value: string, after: string) =>
+        SENSITIVE_KEY.test(key) ? `${before}${this.mask(value)}${after}` : match)
+      .replace(SENSITIVE_ASSIGNMENT, (match, key: string, value: string) =>
+        SENSITIVE_KEY.test(key) ? `${key}=${this.mask(value)}` : match);
+  }
+
+  /**
+   * A copy of a value with every string redacted and the values of sensitive
+   * keys (headers, env, object properties) masked.
+   */
+  static redactValue<T>(value: T, key?: string): T {
+    if (typeof value === 'string') {
+      return (key && SENSITIVE_KEY.test(key) ? this.mask(value) : this.redact(value)) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item)) as unknown as T;
+    }
+    if (value instanceof Error) {
+      return this.redact(value.toString()) as unknown as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([entryKey, entry]) => [entryKey, this.redactValue(entry, entryKey)])) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Redact everything printed through console.log, info, warn and error.
+   */
+  static redactConsole(target: Console = console): void {
+    for (const method of ['log', 'info', 'warn', 'error'] as const) {
+      const print = target[method].bind(target);
+      target[method] = (...args: unknown[]) => print(...args.map(arg => this.redactValue(arg)));
+    }
+  }
+
+  /**
+   * Mask a sensitive value unless it only refers to where the secret lives,
+   * such as "Bearer $COPILOT_MCP_TOKEN".
+   */
+  private static mask(value: string): string {
+    return value.replace(REFERENCES, '').trim() === '' ? value : REDACTED;
+  }
+}